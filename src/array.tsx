@@ -36,3 +36,278 @@ export function isValidIndexFor(
 export function last<T>(self: readonly T[]): T | undefined {
   return self[self.length - 1];
 }
+
+/**
+ * A step of an edit script that transforms one array into another. Steps are
+ * ordered by their position in the source array:
+ *
+ * - `keep` copies the next `count` source elements to the target.
+ * - `delete` skips the next `count` source elements.
+ * - `insert` adds `values` to the target.
+ * - `move` skips the next source element, which is at index `from`, and
+ *   inserts it into the target at index `to`.
+ */
+export type Edit<T> =
+  | { readonly type: "keep"; readonly count: number }
+  | { readonly type: "delete"; readonly count: number }
+  | { readonly type: "insert"; readonly values: readonly T[] }
+  | { readonly type: "move"; readonly from: number; readonly to: number };
+
+/**
+ * Returns a minimal edit script that transforms `a` into `b`. Elements are
+ * compared with `compare`, which defaults to `Object.is`.
+ *
+ * If `key` is given, deleted and inserted elements with the same key that are
+ * equal according to `compare` are reported as `move` steps. `key` must return
+ * the same key for elements that are equal according to `compare`.
+ *
+ * Uses the [Myers diff algorithm](http://www.xmailserver.org/diff2.pdf) with
+ * linear space refinement. Runs in O((N+M)D) time and O(N+M) space, where D is
+ * the number of deleted and inserted elements.
+ */
+export function diff<T>(
+  a: readonly T[],
+  b: readonly T[],
+  compare: (a: T, b: T) => boolean = Object.is,
+  key?: (el: T) => unknown,
+): Edit<T>[] {
+  const steps: DiffStep[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, compare, steps);
+
+  const movedTo = new Map<number, number>();
+  const movedFrom = new Set<number>();
+  if (key) {
+    const deleted = new Map<unknown, number[]>();
+    for (const step of steps) {
+      if (step.type !== "delete") continue;
+      const k = key(a[step.index]);
+      const indices = deleted.get(k);
+      if (indices) indices.push(step.index);
+      else deleted.set(k, [step.index]);
+    }
+    for (const step of steps) {
+      if (step.type !== "insert") continue;
+      const indices = deleted.get(key(b[step.index]));
+      const i = indices?.findIndex((ai) => compare(a[ai], b[step.index]));
+      if (i === undefined || i === -1) continue;
+      movedTo.set(indices![i], step.index);
+      movedFrom.add(step.index);
+      indices!.splice(i, 1);
+    }
+  }
+
+  const result: Edit<T>[] = [];
+  for (const step of steps) {
+    const last = result.at(-1);
+    switch (step.type) {
+      case "keep":
+      case "delete":
+        if (step.type === "delete" && movedTo.has(step.index)) {
+          const to = movedTo.get(step.index)!;
+          result.push({ type: "move", from: step.index, to });
+        } else if (last?.type === step.type) {
+          result[result.length - 1] = {
+            type: step.type,
+            count: last.count + 1,
+          };
+        } else {
+          result.push({ type: step.type, count: 1 });
+        }
+        break;
+      case "insert":
+        if (movedFrom.has(step.index)) break;
+        if (last?.type === "insert") {
+          (last.values as T[]).push(b[step.index]);
+        } else {
+          result.push({ type: "insert", values: [b[step.index]] });
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies the edit script `patch` that was returned by `diff(a, b)` to `a`,
+ * and returns a copy of `b`.
+ */
+export function applyPatch<T>(a: readonly T[], patch: readonly Edit<T>[]): T[] {
+  const result: T[] = [];
+  const moves: [to: number, value: T][] = [];
+  let cursor = 0;
+  for (const edit of patch) {
+    switch (edit.type) {
+      case "keep":
+        if (cursor + edit.count > a.length) break;
+        for (let i = 0; i < edit.count; i++) result.push(a[cursor++]);
+        continue;
+      case "delete":
+        cursor += edit.count;
+        continue;
+      case "insert":
+        result.push(...edit.values);
+        continue;
+      case "move":
+        if (edit.from !== cursor) break;
+        moves.push([edit.to, a[cursor++]]);
+        continue;
+    }
+    throw new Error(`Edit script doesn't match the source array at ${cursor}.`);
+  }
+  if (cursor !== a.length) {
+    throw new Error(
+      `Edit script covers ${cursor} elements, but the source array has ` +
+        `${a.length} elements.`,
+    );
+  }
+
+  moves.sort(([a], [b]) => a - b);
+  for (const [to, value] of moves) result.splice(to, 0, value);
+  return result;
+}
+
+interface DiffStep {
+  readonly type: "keep" | "delete" | "insert";
+
+  /**
+   * Index into `a` for `keep` and `delete` steps, index into `b` for `insert`
+   * steps.
+   */
+  readonly index: number;
+}
+
+/**
+ * Appends the edit steps that transform `a[aStart:aEnd]` into
+ * `b[bStart:bEnd]` to `steps`.
+ *
+ * Based on `diff_bisect_` from
+ * [diff-match-patch](https://github.com/google/diff-match-patch).
+ */
+function diffRange<T>(
+  a: readonly T[],
+  aStart: number,
+  aEnd: number,
+  b: readonly T[],
+  bStart: number,
+  bEnd: number,
+  compare: (a: T, b: T) => boolean,
+  steps: DiffStep[],
+): void {
+  while (aStart < aEnd && bStart < bEnd && compare(a[aStart], b[bStart])) {
+    steps.push({ type: "keep", index: aStart++ });
+    bStart++;
+  }
+  let suffix = 0;
+  while (
+    aStart < aEnd - suffix &&
+    bStart < bEnd - suffix &&
+    compare(a[aEnd - suffix - 1], b[bEnd - suffix - 1])
+  ) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  const split = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd, compare);
+  if (split) {
+    const [x, y] = split;
+    diffRange(a, aStart, x, b, bStart, y, compare, steps);
+    diffRange(a, x, aEnd, b, y, bEnd, compare, steps);
+  } else {
+    for (let i = aStart; i < aEnd; i++)
+      steps.push({ type: "delete", index: i });
+    for (let i = bStart; i < bEnd; i++)
+      steps.push({ type: "insert", index: i });
+  }
+
+  for (let i = 0; i < suffix; i++)
+    steps.push({ type: "keep", index: aEnd + i });
+}
+
+/**
+ * Returns the indices in `a` and `b` where the shortest edit script crosses
+ * the middle diagonal, or `null` if the ranges have no common elements, or
+ * either range is empty.
+ */
+function findMiddleSnake<T>(
+  a: readonly T[],
+  aStart: number,
+  aEnd: number,
+  b: readonly T[],
+  bStart: number,
+  bEnd: number,
+  compare: (a: T, b: T) => boolean,
+): [x: number, y: number] | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  if (n === 0 || m === 0) return null;
+
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD + 2;
+  const v1 = new Int32Array(length).fill(-1);
+  const v2 = new Int32Array(length).fill(-1);
+  v1[offset + 1] = 0;
+  v2[offset + 1] = 0;
+  const delta = n - m;
+  // If the total number of elements is odd, the front path will collide with
+  // the reverse path.
+  const front = delta % 2 !== 0;
+  let k1Start = 0;
+  let k1End = 0;
+  let k2Start = 0;
+  let k2End = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = offset + k1;
+      let x1 =
+        k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+          ? v1[k1Offset + 1]
+          : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && compare(a[aStart + x1], b[bStart + y1])) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      if (x1 > n) {
+        k1End += 2;
+      } else if (y1 > m) {
+        k1Start += 2;
+      } else if (front) {
+        const k2Offset = offset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < length && v2[k2Offset] !== -1) {
+          if (x1 >= n - v2[k2Offset]) return [aStart + x1, bStart + y1];
+        }
+      }
+    }
+
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = offset + k2;
+      let x2 =
+        k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+          ? v2[k2Offset + 1]
+          : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && compare(a[aEnd - x2 - 1], b[bEnd - y2 - 1])) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      if (x2 > n) {
+        k2End += 2;
+      } else if (y2 > m) {
+        k2Start += 2;
+      } else if (!front) {
+        const k1Offset = offset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < length && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = offset + x1 - k1Offset;
+          if (x1 >= n - x2) return [aStart + x1, bStart + y1];
+        }
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,305 @@
+/**
+ * @module
+ * Lazy utility functions for working with async iterables. Accepts sync
+ * iterables too, and callbacks may return promises. Functions that return an
+ * async iterable don't consume `self` until the result is iterated, and close
+ * the iterators of `self` if the result iteration stops early.
+ * Import like this: `import * as $AsyncIterable from "@pschiffmann/std/async-iterable";`
+ */
+
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * Returns the first element of `self` in iteration order, or `undefined` if
+ * `self` is empty.
+ */
+export async function first<T>(self: AnyIterable<T>): Promise<T | undefined> {
+  for await (const el of self) return el;
+  return undefined;
+}
+
+export async function* map<T, U>(
+  self: AnyIterable<T>,
+  f: (el: T, index: number) => U | PromiseLike<U>,
+): AsyncIterable<U> {
+  let i = 0;
+  for await (const el of self) yield await f(el, i++);
+}
+
+export function filter<T, S extends T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => el is S,
+): AsyncIterable<S>;
+export function filter<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): AsyncIterable<T>;
+export async function* filter<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): AsyncIterable<T> {
+  let i = 0;
+  for await (const el of self) {
+    if (await predicate(el, i++)) yield el;
+  }
+}
+
+export async function* flatMap<T, U>(
+  self: AnyIterable<T>,
+  f: (el: T, index: number) => AnyIterable<U> | PromiseLike<AnyIterable<U>>,
+): AsyncIterable<U> {
+  let i = 0;
+  for await (const el of self) yield* await f(el, i++);
+}
+
+/**
+ * Yields the first `n` elements of `self`.
+ */
+export async function* take<T>(
+  self: AnyIterable<T>,
+  n: number,
+): AsyncIterable<T> {
+  if (n <= 0) return;
+  let i = 0;
+  for await (const el of self) {
+    yield el;
+    if (++i >= n) return;
+  }
+}
+
+/**
+ * Yields all elements of `self` except the first `n`.
+ */
+export async function* drop<T>(
+  self: AnyIterable<T>,
+  n: number,
+): AsyncIterable<T> {
+  let i = 0;
+  for await (const el of self) {
+    if (i++ >= n) yield el;
+  }
+}
+
+/**
+ * Yields elements of `self` until `predicate` returns a falsy value for the
+ * first time.
+ */
+export async function* takeWhile<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): AsyncIterable<T> {
+  let i = 0;
+  for await (const el of self) {
+    if (!(await predicate(el, i++))) return;
+    yield el;
+  }
+}
+
+/**
+ * Skips elements of `self` until `predicate` returns a falsy value for the
+ * first time, then yields that and all remaining elements.
+ */
+export async function* dropWhile<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): AsyncIterable<T> {
+  let i = 0;
+  let dropping = true;
+  for await (const el of self) {
+    if (dropping && (await predicate(el, i++))) continue;
+    dropping = false;
+    yield el;
+  }
+}
+
+/**
+ * Yields tuples of the elements of all `iterables` at the same index. Stops
+ * when the shortest iterable is exhausted.
+ */
+export async function* zip<T extends unknown[]>(
+  ...iterables: { readonly [K in keyof T]: AnyIterable<T[K]> }
+): AsyncIterable<T> {
+  const iterators: (AsyncIterator<unknown> | null)[] = iterables.map(
+    (iterable) => toAsyncIterable(iterable)[Symbol.asyncIterator](),
+  );
+  try {
+    while (true) {
+      const values: unknown[] = [];
+      for (let i = 0; i < iterators.length; i++) {
+        const iterator = iterators[i]!;
+        // Iterators that are exhausted or threw must not be closed.
+        iterators[i] = null;
+        const result = await iterator.next();
+        if (result.done) return;
+        iterators[i] = iterator;
+        values.push(result.value);
+      }
+      if (values.length === 0) return;
+      yield values as T;
+    }
+  } finally {
+    await Promise.all(iterators.map((iterator) => iterator?.return?.()));
+  }
+}
+
+/**
+ * Yields arrays of `size` consecutive elements of `self`. The last array
+ * contains fewer elements if the number of elements isn't divisible by `size`.
+ */
+export async function* chunk<T>(
+  self: AnyIterable<T>,
+  size: number,
+): AsyncIterable<T[]> {
+  assertPositiveInteger(size);
+  let chunk: T[] = [];
+  for await (const el of self) {
+    chunk.push(el);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length !== 0) yield chunk;
+}
+
+/**
+ * Yields all arrays of `size` consecutive elements of `self`, in a sliding
+ * window. Yields nothing if `self` contains fewer than `size` elements.
+ */
+export async function* window<T>(
+  self: AnyIterable<T>,
+  size: number,
+): AsyncIterable<T[]> {
+  assertPositiveInteger(size);
+  const window: T[] = [];
+  for await (const el of self) {
+    window.push(el);
+    if (window.length > size) window.shift();
+    if (window.length === size) yield [...window];
+  }
+}
+
+/**
+ * Yields `[index, element]` pairs.
+ */
+export async function* enumerate<T>(
+  self: AnyIterable<T>,
+): AsyncIterable<[number, T]> {
+  let i = 0;
+  for await (const el of self) yield [i++, el];
+}
+
+/**
+ * Groups the elements of `self` by the result of `key`. Groups are ordered by
+ * their first element.
+ */
+export async function groupBy<T, K>(
+  self: AnyIterable<T>,
+  key: (el: T, index: number) => K | PromiseLike<K>,
+): Promise<Map<K, T[]>> {
+  const result = new Map<K, T[]>();
+  let i = 0;
+  for await (const el of self) {
+    const k = await key(el, i++);
+    const group = result.get(k);
+    if (group) group.push(el);
+    else result.set(k, [el]);
+  }
+  return result;
+}
+
+/**
+ * Returns the elements for which `predicate` returns a truthy value, and the
+ * remaining elements.
+ */
+export function partition<T, S extends T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => el is S,
+): Promise<[S[], Exclude<T, S>[]]>;
+export function partition<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Promise<[T[], T[]]>;
+export async function partition<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Promise<[T[], T[]]> {
+  const matches: T[] = [];
+  const rest: T[] = [];
+  let i = 0;
+  for await (const el of self) {
+    ((await predicate(el, i++)) ? matches : rest).push(el);
+  }
+  return [matches, rest];
+}
+
+export async function reduce<T, U>(
+  self: AnyIterable<T>,
+  f: (accumulator: U, el: T, index: number) => U | PromiseLike<U>,
+  initialValue: U,
+): Promise<U> {
+  let result = initialValue;
+  let i = 0;
+  for await (const el of self) result = await f(result, el, i++);
+  return result;
+}
+
+/**
+ * Returns `true` iff `predicate` returns a truthy value for any element.
+ * Stops iterating at the first match.
+ */
+export async function some<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Promise<boolean> {
+  let i = 0;
+  for await (const el of self) {
+    if (await predicate(el, i++)) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns `true` iff `predicate` returns a truthy value for all elements.
+ * Stops iterating at the first mismatch.
+ */
+export async function every<T>(
+  self: AnyIterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Promise<boolean> {
+  let i = 0;
+  for await (const el of self) {
+    if (!(await predicate(el, i++))) return false;
+  }
+  return true;
+}
+
+export async function toArray<T>(self: AnyIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const el of self) result.push(el);
+  return result;
+}
+
+export async function toSet<T>(self: AnyIterable<T>): Promise<Set<T>> {
+  const result = new Set<T>();
+  for await (const el of self) result.add(el);
+  return result;
+}
+
+export async function toMap<K, V>(
+  self: AnyIterable<readonly [K, V]>,
+): Promise<Map<K, V>> {
+  const result = new Map<K, V>();
+  for await (const [k, v] of self) result.set(k, v);
+  return result;
+}
+
+async function* toAsyncIterable<T>(self: AnyIterable<T>): AsyncIterable<T> {
+  yield* self;
+}
+
+function assertPositiveInteger(size: number) {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid size: ${size}. Must be a positive integer.`);
+  }
+}
@@ -0,0 +1,254 @@
+import * as $Promise from "./promise.js";
+
+/**
+ * Thrown by `Channel.send()` if the channel is closed, and by
+ * `Channel.receive()` if the channel is closed and empty.
+ */
+export class ChannelClosedError extends Error {
+  constructor() {
+    super("Channel is closed.");
+  }
+}
+
+export interface ChannelOptions {
+  /**
+   * If `signal` is aborted while waiting, the call is removed from the queue
+   * and the promise rejects with `signal.reason`.
+   */
+  readonly signal?: AbortSignal;
+}
+
+interface Waiter<V> {
+  readonly resolve: $Promise.Resolve<V>;
+  readonly reject: $Promise.Reject;
+}
+
+interface Sender<T> extends Waiter<void> {
+  readonly value: T;
+}
+
+type Receiver<T> = Waiter<T>;
+
+/**
+ * A FIFO queue that connects producers and consumers. Buffers up to `capacity`
+ * values; `send()` waits while the buffer is full. With a `capacity` of 0,
+ * `send()` waits until the value is received.
+ *
+ * Can be consumed with `for await`. Multiple consumers of the same channel
+ * receive different values.
+ */
+export class Channel<T> implements AsyncIterable<T> {
+  constructor(readonly capacity = Infinity) {
+    if (!(capacity >= 0)) throw new Error(`Invalid capacity: ${capacity}`);
+  }
+
+  #buffer: T[] = [];
+  #senders: Sender<T>[] = [];
+  #receivers: Receiver<T>[] = [];
+  #closed = false;
+  #error: unknown = undefined;
+
+  /**
+   * The number of buffered values.
+   */
+  get size(): number {
+    return this.#buffer.length;
+  }
+
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  /**
+   * Adds `value` to the channel, and waits while the buffer is full. Rejects
+   * with a `ChannelClosedError` if the channel is closed before the value is
+   * accepted.
+   */
+  send(value: T, { signal }: ChannelOptions = {}): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.trySend(value)) return Promise.resolve();
+    if (this.#closed) return Promise.reject(new ChannelClosedError());
+
+    const [promise, resolve, reject] = $Promise.create();
+    const sender: Sender<T> = { value, resolve, reject };
+    this.#enqueue<void, Sender<T>>(this.#senders, sender, signal);
+    return promise;
+  }
+
+  /**
+   * Adds `value` to the channel if that doesn't require waiting. Returns
+   * whether the value was accepted.
+   */
+  trySend(value: T): boolean {
+    if (this.#closed) return false;
+    if (this.#receivers.length !== 0) {
+      this.#receivers.shift()!.resolve(value);
+      return true;
+    }
+    if (this.#buffer.length < this.capacity) {
+      this.#buffer.push(value);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes the next value from the channel, and waits while the channel is
+   * empty. If the channel is closed and empty, rejects with the error that was
+   * passed to `close()`, or a `ChannelClosedError`.
+   */
+  receive({ signal }: ChannelOptions = {}): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const [promise, resolve, reject] = $Promise.create<T>();
+    if (this.#buffer.length !== 0) {
+      resolve(this.#buffer.shift()!);
+      this.#pullSender();
+    } else if (this.#senders.length !== 0) {
+      const sender = this.#senders.shift()!;
+      resolve(sender.value);
+      sender.resolve();
+    } else if (this.#closed) {
+      reject(this.#error ?? new ChannelClosedError());
+    } else {
+      this.#enqueue<T, Receiver<T>>(
+        this.#receivers,
+        { resolve, reject },
+        signal,
+      );
+    }
+    return promise;
+  }
+
+  /**
+   * Rejects all waiting and future `send()` calls. Consumers receive the
+   * remaining buffered values; after that, `receive()` rejects and `for await`
+   * loops end. If `error` is passed, `receive()` rejects with `error` and
+   * `for await` loops throw it. Does nothing if the channel is already closed.
+   */
+  close(error?: unknown): void {
+    if (this.#closed) return;
+    this.#closed = true;
+    this.#error = error;
+    for (const sender of this.#senders.splice(0)) {
+      sender.reject(new ChannelClosedError());
+    }
+    for (const receiver of this.#receivers.splice(0)) {
+      receiver.reject(error ?? new ChannelClosedError());
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      try {
+        yield await this.receive();
+      } catch (e) {
+        if (e instanceof ChannelClosedError && this.#closed) return;
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Moves the value of the first waiting sender into the buffer.
+   */
+  #pullSender() {
+    if (this.#senders.length === 0) return;
+    const sender = this.#senders.shift()!;
+    this.#buffer.push(sender.value);
+    sender.resolve();
+  }
+
+  /**
+   * Appends `entry` to `queue`, and removes it again if `signal` is aborted.
+   */
+  #enqueue<V, E extends Waiter<V>>(
+    queue: E[],
+    entry: E,
+    signal: AbortSignal | undefined,
+  ) {
+    if (!signal) {
+      queue.push(entry);
+      return;
+    }
+    const onAbort = () => {
+      queue.splice(queue.indexOf(wrapped), 1);
+      entry.reject(signal.reason);
+    };
+    const wrapped: E = {
+      ...entry,
+      resolve(value: V | PromiseLike<V>) {
+        signal.removeEventListener("abort", onAbort);
+        entry.resolve(value);
+      },
+      reject(reason?: unknown) {
+        signal.removeEventListener("abort", onAbort);
+        entry.reject(reason);
+      },
+    };
+    queue.push(wrapped);
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+}
+
+/**
+ * Returns a channel that receives the values of all `sources`, in the order in
+ * which they arrive. The channel is closed after all sources are exhausted, or
+ * with the error of the first source that throws.
+ */
+export function merge<T>(
+  sources: readonly AsyncIterable<T>[],
+  capacity = 0,
+): Channel<T> {
+  const output = new Channel<T>(capacity);
+  let remaining = sources.length;
+  if (remaining === 0) output.close();
+  for (const source of sources) {
+    pump(source, [output]).then(
+      () => {
+        if (--remaining === 0) output.close();
+      },
+      (e) => output.close(e),
+    );
+  }
+  return output;
+}
+
+/**
+ * Returns `count` channels that each receive every value of `source`. Waits
+ * for all channels to accept a value before reading the next one, so the
+ * slowest consumer determines the pace. The channels are closed when `source`
+ * is exhausted, or with the error that `source` throws.
+ *
+ * To distribute the values of a channel among several consumers instead,
+ * iterate the same channel in each consumer.
+ */
+export function fanOut<T>(
+  source: AsyncIterable<T>,
+  count: number,
+  capacity = 0,
+): Channel<T>[] {
+  const outputs = Array.from({ length: count }, () => new Channel<T>(capacity));
+  pump(source, outputs).then(
+    () => outputs.forEach((output) => output.close()),
+    (e) => outputs.forEach((output) => output.close(e)),
+  );
+  return outputs;
+}
+
+/**
+ * Sends all values of `source` to all open `outputs`. Stops reading from
+ * `source` once all outputs are closed.
+ */
+async function pump<T>(source: AsyncIterable<T>, outputs: Channel<T>[]) {
+  for await (const value of source) {
+    const open = outputs.filter((output) => !output.closed);
+    if (open.length === 0) return;
+    await Promise.all(
+      open.map((output) =>
+        output.send(value).catch((e) => {
+          if (!(e instanceof ChannelClosedError)) throw e;
+        }),
+      ),
+    );
+  }
+}
@@ -0,0 +1,309 @@
+import { assert } from "./assert.js";
+import {
+  spaceOnlyPattern,
+  stripFirstAndLastLine,
+} from "./internal/template.js";
+
+export interface CodeWriterOptions {
+  /**
+   * The string that is written once per indentation level, for example `"\t"`.
+   * Defaults to two spaces.
+   */
+  readonly indent?: string;
+
+  /**
+   * The number of spaces that make up one indentation level inside `code`
+   * templates. Spaces that don't add up to a full level are written as-is.
+   * Defaults to 2.
+   */
+  readonly templateIndent?: number;
+}
+
+/**
+ * Values that can be substituted into a `code` template, or written to a
+ * `CodeWriter`.
+ *
+ * `null`, `undefined` and `false` are omitted. Arrays are written one element
+ * per line. All other values are converted to strings.
+ */
+export type CodeSubstitution =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | undefined
+  | CodeFragment
+  | readonly CodeSubstitution[];
+
+/**
+ * A line of rendered code, `level` indentation levels deep.
+ */
+interface Line {
+  readonly level: number;
+  readonly text: string;
+}
+
+/**
+ * A piece of code created by `code` or `join()`. Can be substituted into other
+ * `code` templates, or written to a `CodeWriter`.
+ */
+class CodeFragment {
+  constructor(render: (templateIndent: number) => Line[]) {
+    this.#render = render;
+  }
+
+  #render: (templateIndent: number) => Line[];
+
+  /**
+   * Renders this fragment with the default `CodeWriterOptions`.
+   */
+  toString(): string {
+    return new CodeWriter().write(this).toString();
+  }
+
+  static render(fragment: CodeFragment, templateIndent: number): Line[] {
+    return fragment.#render(templateIndent);
+  }
+}
+
+export type { CodeFragment };
+
+/**
+ * Template literal tag for generated code. Like `dedent`, the first and last
+ * line must be empty, and the last line defines the indentation that is
+ * stripped from all previous lines.
+ *
+ * Multiline substitutions are allowed anywhere in a line. The first line of
+ * the substitution continues the template line; all following lines are
+ * indented to the level of the template line. If a line contains only
+ * substitutions that are omitted, the line is removed, together with a blank
+ * line that would otherwise appear twice in a row.
+ */
+export function code(
+  strings: TemplateStringsArray,
+  ...args: CodeSubstitution[]
+): CodeFragment {
+  const lines = parseTemplate(strings);
+  return new CodeFragment((templateIndent) =>
+    renderTemplate(lines, args, templateIndent),
+  );
+}
+
+/**
+ * Returns a fragment that contains all `items` that aren't omitted, separated
+ * by `separator`. If `separator` ends with a newline, each item starts on a
+ * new line.
+ */
+export function join(
+  items: readonly CodeSubstitution[],
+  separator: string,
+): CodeFragment {
+  return new CodeFragment((templateIndent) => {
+    const result: Line[] = [];
+    const separatorLines = separator
+      .split("\n")
+      .map((text) => ({ level: 0, text }));
+    for (const [i, item] of items.entries()) {
+      const lines = renderValue(item, templateIndent, () => `Item ${i + 1}`);
+      if (lines.length === 0) continue;
+      if (result.length !== 0) appendInline(result, separatorLines, 0);
+      appendInline(result, lines, 0);
+    }
+    return result;
+  });
+}
+
+/**
+ * Builds source code line by line, and keeps track of the current indentation
+ * level.
+ */
+export class CodeWriter {
+  constructor({ indent = "  ", templateIndent = 2 }: CodeWriterOptions = {}) {
+    assert(
+      Number.isInteger(templateIndent) && templateIndent > 0,
+      "`templateIndent` must be a positive integer.",
+    );
+    this.#indent = indent;
+    this.#templateIndent = templateIndent;
+  }
+
+  #indent: string;
+  #templateIndent: number;
+  #level = 0;
+  #lines: Line[] = [];
+
+  /**
+   * Writes `value` on a new line at the current indentation level.
+   */
+  write(value: CodeSubstitution): this {
+    const lines = renderValue(value, this.#templateIndent, () => "Value");
+    for (const { level, text } of lines) {
+      this.#lines.push({ level: this.#level + level, text });
+    }
+    return this;
+  }
+
+  blankLine(): this {
+    this.#lines.push({ level: 0, text: "" });
+    return this;
+  }
+
+  /**
+   * Calls `body`, and indents everything it writes by one level.
+   */
+  indent(body: (writer: this) => void): this {
+    this.#level++;
+    try {
+      body(this);
+    } finally {
+      this.#level--;
+    }
+    return this;
+  }
+
+  /**
+   * Writes `header`, then everything `body` writes indented by one level,
+   * then `footer`.
+   */
+  block(
+    header: CodeSubstitution,
+    body: (writer: this) => void,
+    footer: CodeSubstitution = "}",
+  ): this {
+    return this.write(header).indent(body).write(footer);
+  }
+
+  toString(): string {
+    return this.#lines
+      .map(({ level, text }) => (text ? this.#indent.repeat(level) + text : ""))
+      .join("\n");
+  }
+}
+
+/**
+ * A line of a `code` template. `parts` alternates between literal text and
+ * indices into the substitutions, starting with literal text.
+ */
+interface TemplateLine {
+  readonly lineNumber: number;
+  readonly indent: number;
+  readonly parts: readonly (string | number)[];
+}
+
+function parseTemplate(chunks: TemplateStringsArray): TemplateLine[] {
+  const { strings, indent } = stripFirstAndLastLine(chunks);
+
+  const lines: (string | number)[][] = [[]];
+  for (let i = 0; i < strings.length; i++) {
+    const [first, ...rest] = strings[i].split("\n");
+    lines.at(-1)!.push(first);
+    for (const line of rest) lines.push([line]);
+    if (i !== strings.length - 1) lines.at(-1)!.push(i);
+  }
+
+  return lines.map((parts, i) => {
+    const first = parts[0] as string;
+    if (parts.length === 1 && !first.trim()) {
+      return { lineNumber: i + 1, indent: 0, parts: [] };
+    }
+    assert(
+      first.startsWith(indent),
+      `Insufficient indentation in line ${i + 1}.`,
+    );
+    const text = first.substring(indent.length);
+    const lineIndent = text.length - text.trimStart().length;
+    assert(
+      spaceOnlyPattern.test(text.substring(0, lineIndent)),
+      `Indentation in line ${i + 1} may only contain spaces.`,
+    );
+    return {
+      lineNumber: i + 1,
+      indent: lineIndent,
+      parts: [text.substring(lineIndent), ...parts.slice(1)],
+    };
+  });
+}
+
+function renderTemplate(
+  lines: readonly TemplateLine[],
+  args: readonly CodeSubstitution[],
+  templateIndent: number,
+): Line[] {
+  const result: Line[] = [];
+  let omitted = false;
+  for (const { lineNumber, indent, parts } of lines) {
+    if (parts.length === 0) {
+      if (!omitted || (result.length !== 0 && result.at(-1)!.text !== "")) {
+        result.push({ level: 0, text: "" });
+      }
+      omitted = false;
+      continue;
+    }
+
+    const level = Math.floor(indent / templateIndent);
+    const line: Line[] = [{ level, text: " ".repeat(indent % templateIndent) }];
+    let empty = true;
+    for (const part of parts) {
+      if (typeof part === "string") {
+        if (part.trim()) empty = false;
+        appendInline(line, [{ level: 0, text: part }], level);
+        continue;
+      }
+      const rendered = renderValue(
+        args[part],
+        templateIndent,
+        () => `Substitution ${part + 1} in line ${lineNumber}`,
+      );
+      if (rendered.length !== 0) empty = false;
+      appendInline(line, rendered, level);
+    }
+
+    omitted = empty;
+    if (!omitted) result.push(...line);
+  }
+
+  if (omitted && result.at(-1)?.text === "") result.pop();
+  return result;
+}
+
+/**
+ * Converts `value` to lines with indentation levels relative to the first
+ * line. `describe` returns the subject of error messages.
+ */
+function renderValue(
+  value: CodeSubstitution,
+  templateIndent: number,
+  describe: () => string,
+): Line[] {
+  if (value === null || value === undefined || value === false) return [];
+  if (value instanceof CodeFragment) {
+    return CodeFragment.render(value, templateIndent);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => renderValue(item, templateIndent, describe));
+  }
+  assert(
+    typeof value !== "object" && typeof value !== "function",
+    `${describe()} must be a string, number or code fragment, but got ` +
+      `${typeof value}.`,
+  );
+  const text = String(value);
+  return text ? text.split("\n").map((text) => ({ level: 0, text })) : [];
+}
+
+/**
+ * Appends the first line of `lines` to the last line of `target`, and the
+ * remaining lines at `level` plus their level relative to the first line.
+ */
+function appendInline(target: Line[], lines: readonly Line[], level: number) {
+  if (lines.length === 0) return;
+  const last = target.pop() ?? { level: lines[0].level, text: "" };
+  target.push({ level: last.level, text: last.text + lines[0].text });
+  for (let i = 1; i < lines.length; i++) {
+    target.push({
+      level: Math.max(0, level + lines[i].level - lines[0].level),
+      text: lines[i].text,
+    });
+  }
+}
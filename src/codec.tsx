@@ -0,0 +1,462 @@
+/**
+ * @module
+ * Binary-to-text encodings from
+ * [RFC 4648](https://www.rfc-editor.org/rfc/rfc4648).
+ * Import like this: `import * as $Codec from "@pschiffmann/std/codec";`
+ */
+
+export interface CodecOptions {
+  /**
+   * If `true`, `encode()` appends `=` characters until the output length is a
+   * multiple of the block size, and strict `decode()` requires them. If
+   * `false`, strict `decode()` rejects `=` characters.
+   */
+  readonly padding?: boolean;
+
+  /**
+   * If `false`, `decode()` ignores whitespace, and accepts input with missing
+   * or unexpected padding. Defaults to `true`.
+   */
+  readonly strict?: boolean;
+
+  /**
+   * Characters that `decode()` skips, for example `-` in formatted keys. All
+   * other characters outside of the alphabet cause an error.
+   */
+  readonly ignore?: string;
+
+  /**
+   * If `true`, `decode()` accepts both lower and upper case letters.
+   */
+  readonly caseInsensitive?: boolean;
+}
+
+/**
+ * Thrown by `Codec.decode()` if the input is invalid. `position` is the index
+ * of the offending character in the input.
+ */
+export class DecodeError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+  }
+}
+
+const whitespace = " \t\n\f\r";
+
+/**
+ * Encodes bytes as text using an alphabet of 16, 32 or 64 characters. Each
+ * character encodes 4, 5 or 6 bits, respectively.
+ */
+export class Codec {
+  /**
+   * `alphabet` must contain exactly 16, 32 or 64 unique ASCII characters other
+   * than `=`.
+   */
+  constructor(
+    readonly alphabet: string,
+    readonly options: CodecOptions = {},
+  ) {
+    const bitsPerChar = Math.log2(alphabet.length);
+    if (bitsPerChar !== 4 && bitsPerChar !== 5 && bitsPerChar !== 6) {
+      throw new Error("`alphabet` must contain 16, 32 or 64 characters.");
+    }
+    const [encodeChar, decodeChar] = createTables(
+      alphabet,
+      !!options.caseInsensitive,
+    );
+    this.#spec = {
+      bitsPerChar,
+      blockSize: lcm(8, bitsPerChar) / bitsPerChar,
+      encodeChar,
+      decodeChar,
+      ignore: new Set(
+        (options.strict ?? true ? "" : whitespace) + (options.ignore ?? ""),
+      ),
+      padding: !!options.padding,
+      strict: options.strict ?? true,
+    };
+  }
+
+  #spec: CodecSpec;
+
+  /**
+   * Returns a new codec with the same alphabet and `options` merged into the
+   * options of this codec.
+   */
+  withOptions(options: CodecOptions): Codec {
+    return new Codec(this.alphabet, { ...this.options, ...options });
+  }
+
+  encode(bytes: Uint8Array): string {
+    const encoder = this.createEncoder();
+    return encoder.push(bytes) + encoder.flush();
+  }
+
+  /**
+   * Throws a `DecodeError` if `text` contains characters outside of the
+   * alphabet that are not ignored, has an invalid length, or has invalid
+   * padding.
+   */
+  decode(text: string): Uint8Array {
+    const decoder = this.createDecoder();
+    const output = decoder.push(text);
+    decoder.flush();
+    return output;
+  }
+
+  /**
+   * Returns an encoder for input that arrives in chunks. The concatenated
+   * output of all `push()` calls and the final `flush()` call is identical to
+   * the `encode()` output for the concatenated input.
+   */
+  createEncoder(): Encoder {
+    return new IncrementalEncoder(this.#spec);
+  }
+
+  /**
+   * Returns a decoder for input that arrives in chunks. The concatenated
+   * output of all `push()` calls is identical to the `decode()` output for the
+   * concatenated input. `DecodeError` positions are relative to the
+   * concatenated input.
+   */
+  createDecoder(): Decoder {
+    return new IncrementalDecoder(this.#spec);
+  }
+}
+
+export interface Encoder {
+  /**
+   * Encodes `bytes` and returns the encoded characters that are complete.
+   */
+  push(bytes: Uint8Array): string;
+
+  /**
+   * Returns the remaining characters and padding, and resets the encoder.
+   */
+  flush(): string;
+}
+
+export interface Decoder {
+  /**
+   * Decodes `text` and returns the decoded bytes that are complete.
+   */
+  push(text: string): Uint8Array;
+
+  /**
+   * Throws a `DecodeError` if the input so far has an invalid length or
+   * padding, and resets the decoder. Returns an empty array, because `push()`
+   * returns all bytes as soon as they are complete.
+   */
+  flush(): Uint8Array;
+}
+
+/**
+ * A `TransformStream` that encodes bytes to text with `codec`.
+ */
+export class EncoderStream extends TransformStream<Uint8Array, string> {
+  constructor(codec: Codec) {
+    const encoder = codec.createEncoder();
+    super({
+      transform(chunk, controller) {
+        const output = encoder.push(chunk);
+        if (output) controller.enqueue(output);
+      },
+      flush(controller) {
+        const output = encoder.flush();
+        if (output) controller.enqueue(output);
+      },
+    });
+  }
+}
+
+/**
+ * A `TransformStream` that decodes text to bytes with `codec`. Errors the
+ * stream with a `DecodeError` if the input is invalid.
+ */
+export class DecoderStream extends TransformStream<string, Uint8Array> {
+  constructor(codec: Codec) {
+    const decoder = codec.createDecoder();
+    super({
+      transform(chunk, controller) {
+        const output = decoder.push(chunk);
+        if (output.length !== 0) controller.enqueue(output);
+      },
+      flush() {
+        decoder.flush();
+      },
+    });
+  }
+}
+
+/**
+ * The alphabet and options of a `Codec`, in a format that is efficient for
+ * encoding and decoding.
+ */
+interface CodecSpec {
+  readonly bitsPerChar: number;
+
+  /**
+   * The number of characters that encode a whole number of bytes.
+   */
+  readonly blockSize: number;
+  readonly encodeChar: (value: number) => number;
+  readonly decodeChar: (charCode: number) => number;
+  readonly ignore: ReadonlySet<string>;
+  readonly padding: boolean;
+  readonly strict: boolean;
+}
+
+class IncrementalEncoder implements Encoder {
+  constructor(spec: CodecSpec) {
+    this.#spec = spec;
+  }
+
+  #spec: CodecSpec;
+
+  /**
+   * Bits of the input that have not been encoded yet.
+   */
+  #buffer = 0;
+  #bufferedBits = 0;
+
+  /**
+   * The number of characters that have been returned since the last flush.
+   */
+  #chars = 0;
+
+  push(bytes: Uint8Array): string {
+    const { bitsPerChar, encodeChar } = this.#spec;
+    const mask = (1 << bitsPerChar) - 1;
+    const output = new Uint8Array(
+      Math.floor((bytes.length * 8 + this.#bufferedBits) / bitsPerChar),
+    );
+
+    let buffer = this.#buffer;
+    let bufferedBits = this.#bufferedBits;
+    let o = 0;
+    for (const byte of bytes) {
+      buffer = (buffer << 8) | byte;
+      bufferedBits += 8;
+      while (bufferedBits >= bitsPerChar) {
+        bufferedBits -= bitsPerChar;
+        output[o++] = encodeChar((buffer >>> bufferedBits) & mask);
+      }
+      buffer &= (1 << bufferedBits) - 1;
+    }
+    this.#buffer = buffer;
+    this.#bufferedBits = bufferedBits;
+    this.#chars += o;
+
+    return new TextDecoder().decode(output);
+  }
+
+  flush(): string {
+    const { bitsPerChar, blockSize, encodeChar, padding } = this.#spec;
+    let output = "";
+    if (this.#bufferedBits !== 0) {
+      const value = this.#buffer << (bitsPerChar - this.#bufferedBits);
+      output += String.fromCharCode(encodeChar(value));
+      this.#chars++;
+    }
+    if (padding) {
+      output += "=".repeat((blockSize - (this.#chars % blockSize)) % blockSize);
+    }
+
+    this.#buffer = this.#bufferedBits = this.#chars = 0;
+    return output;
+  }
+}
+
+class IncrementalDecoder implements Decoder {
+  constructor(spec: CodecSpec) {
+    this.#spec = spec;
+  }
+
+  #spec: CodecSpec;
+
+  /**
+   * Bits of the input that have not been decoded yet.
+   */
+  #buffer = 0;
+  #bufferedBits = 0;
+
+  /**
+   * The number of input characters since the last flush, including ignored
+   * characters.
+   */
+  #position = 0;
+  #dataChars = 0;
+  #padChars = 0;
+
+  push(text: string): Uint8Array {
+    const { bitsPerChar, decodeChar, ignore, padding, strict } = this.#spec;
+    const output = new Uint8Array(
+      Math.floor((text.length * bitsPerChar + this.#bufferedBits) / 8),
+    );
+
+    let buffer = this.#buffer;
+    let bufferedBits = this.#bufferedBits;
+    let o = 0;
+    for (let i = 0; i < text.length; i++) {
+      const position = this.#position + i;
+      const char = text[i];
+      if (ignore.has(char)) continue;
+      if (char === "=") {
+        if (strict && !padding) {
+          throw new DecodeError(
+            `Unexpected padding at position ${position}.`,
+            position,
+          );
+        }
+        this.#padChars++;
+        continue;
+      }
+      if (this.#padChars !== 0) {
+        throw new DecodeError(
+          `Unexpected character "${char}" after padding at position ` +
+            `${position}.`,
+          position,
+        );
+      }
+      const value = decodeChar(text.charCodeAt(i));
+      if (value === -1) {
+        throw new DecodeError(
+          `Invalid character "${char}" at position ${position}: not part of ` +
+            `the alphabet.`,
+          position,
+        );
+      }
+      this.#dataChars++;
+      buffer = (buffer << bitsPerChar) | value;
+      bufferedBits += bitsPerChar;
+      if (bufferedBits >= 8) {
+        bufferedBits -= 8;
+        output[o++] = buffer >>> bufferedBits;
+        buffer &= (1 << bufferedBits) - 1;
+      }
+    }
+    this.#buffer = buffer;
+    this.#bufferedBits = bufferedBits;
+    this.#position += text.length;
+
+    return output.subarray(0, o);
+  }
+
+  flush(): Uint8Array {
+    const { bitsPerChar, blockSize, padding, strict } = this.#spec;
+    const position = this.#position;
+    const dataChars = this.#dataChars;
+    const padChars = this.#padChars;
+    const bufferedBits = this.#bufferedBits;
+    this.#buffer = this.#bufferedBits = 0;
+    this.#position = this.#dataChars = this.#padChars = 0;
+
+    // A trailing character is invalid if it doesn't complete a byte.
+    if (bufferedBits >= bitsPerChar) {
+      throw new DecodeError(
+        `Invalid input length: ${dataChars} characters can't be decoded.`,
+        position,
+      );
+    }
+    if (strict && padding) {
+      const expected = (blockSize - (dataChars % blockSize)) % blockSize;
+      if (padChars !== expected) {
+        throw new DecodeError(
+          `Invalid padding: expected ${expected} "=" characters, got ` +
+            `${padChars}.`,
+          position,
+        );
+      }
+    }
+    return new Uint8Array(0);
+  }
+}
+
+/**
+ * [base64](https://www.rfc-editor.org/rfc/rfc4648#section-4) encoding, with
+ * padding.
+ */
+export const base64 = new Codec(
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/",
+  { padding: true },
+);
+
+/**
+ * [base64url](https://www.rfc-editor.org/rfc/rfc4648#section-5) encoding,
+ * without padding.
+ */
+export const base64url = new Codec(
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_",
+);
+
+/**
+ * [base32](https://www.rfc-editor.org/rfc/rfc4648#section-6) encoding, with
+ * padding. Decoding is case-insensitive.
+ */
+export const base32 = new Codec("ABCDEFGHIJKLMNOPQRSTUVWXYZ234567", {
+  padding: true,
+  caseInsensitive: true,
+});
+
+/**
+ * [base16](https://www.rfc-editor.org/rfc/rfc4648#section-8) encoding with
+ * lower case letters. Decoding is case-insensitive.
+ */
+export const hex = new Codec("0123456789abcdef", { caseInsensitive: true });
+
+/**
+ * `alphabet` must contain unique ASCII characters other than `=`.
+ *
+ * Returns a function `encodeChar()` that maps the values 0..alphabet.length-1
+ * to `alphabet` char codes; and a function `decodeChar()` that maps `alphabet`
+ * char codes back to their values, and all other char codes to `-1`. If
+ * `caseInsensitive` is `true`, `decodeChar()` maps both cases of letters.
+ */
+function createTables(alphabet: string, caseInsensitive: boolean) {
+  const encodingTable = new Uint8Array(alphabet.length);
+  for (let i = 0; i < alphabet.length; i++) {
+    encodingTable[i] = alphabet.charCodeAt(i);
+  }
+
+  const decodingTable = new Int8Array(128).fill(-1);
+  for (let i = 0; i < alphabet.length; i++) {
+    const charCode = alphabet.charCodeAt(i);
+    if (
+      charCode >= 128 ||
+      alphabet[i] === "=" ||
+      decodingTable[charCode] !== -1
+    ) {
+      throw new Error(
+        "`alphabet` must contain unique ASCII characters other than `=`.",
+      );
+    }
+    decodingTable[charCode] = i;
+  }
+  if (caseInsensitive) {
+    for (let i = 0; i < alphabet.length; i++) {
+      const char = alphabet[i];
+      decodingTable[char.toLowerCase().charCodeAt(0)] = i;
+      decodingTable[char.toUpperCase().charCodeAt(0)] = i;
+    }
+  }
+
+  function encodeChar(value: number) {
+    return encodingTable[value];
+  }
+
+  function decodeChar(charCode: number) {
+    return decodingTable[charCode] ?? -1;
+  }
+
+  return [encodeChar, decodeChar] as const;
+}
+
+function lcm(a: number, b: number) {
+  let x = a;
+  let y = b;
+  while (y !== 0) [x, y] = [y, x % y];
+  return (a * b) / x;
+}
@@ -0,0 +1,290 @@
+import * as $Promise from "./promise.js";
+
+/**
+ * Returns the permits that were acquired from a `Semaphore`. Calling it more
+ * than once has no effect.
+ */
+export type Release = () => void;
+
+export interface AcquireOptions {
+  /**
+   * If `signal` is aborted while waiting, the waiter is removed from the queue
+   * and the promise rejects with `signal.reason`.
+   */
+  readonly signal?: AbortSignal;
+}
+
+interface Waiter<T> {
+  readonly weight: number;
+  readonly resolve: $Promise.Resolve<T>;
+}
+
+/**
+ * A FIFO queue of weighted waiters that can be aborted with an `AbortSignal`.
+ * Used by `Semaphore` and `$Timing.RateLimiter`.
+ */
+export class WaitQueue<T> {
+  /**
+   * `onAbort` is called after an aborted waiter was removed from the queue,
+   * because the waiters behind it might be served now.
+   */
+  constructor(onAbort: () => void) {
+    this.#onAbort = onAbort;
+  }
+
+  #waiters: Waiter<T>[] = [];
+  #onAbort: () => void;
+
+  get length(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * The weight of the first waiter, or `undefined` if the queue is empty.
+   */
+  get nextWeight(): number | undefined {
+    return this.#waiters[0]?.weight;
+  }
+
+  /**
+   * Appends a waiter to the queue. The promise resolves when the waiter is
+   * removed with `resolveNext()`, or rejects with `signal.reason` if `signal`
+   * is aborted first.
+   */
+  wait(weight: number, { signal }: AcquireOptions = {}): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const [promise, resolve, reject] = $Promise.create<T>();
+    const onAbort = () => {
+      this.#waiters.splice(this.#waiters.indexOf(waiter), 1);
+      reject(signal!.reason);
+      this.#onAbort();
+    };
+    const waiter: Waiter<T> = {
+      weight,
+      resolve(value) {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+    };
+    this.#waiters.push(waiter);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    return promise;
+  }
+
+  /**
+   * Removes the first waiter from the queue and resolves it with `value`.
+   */
+  resolveNext(value: T): void {
+    this.#waiters.shift()?.resolve(value);
+  }
+}
+
+/**
+ * Limits the number of concurrent operations. Waiters are served in FIFO
+ * order: a waiter that requests more permits than are available blocks all
+ * waiters behind it, even if they request fewer permits.
+ */
+export class Semaphore {
+  constructor(readonly permits: number) {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new Error(`Invalid permits: ${permits}`);
+    }
+    this.#available = permits;
+  }
+
+  #available: number;
+  #waiters = new WaitQueue<Release>(() => this.#dispatch());
+
+  /**
+   * The number of permits that can be acquired without waiting.
+   */
+  get available(): number {
+    return this.#available;
+  }
+
+  /**
+   * The number of waiters in the queue.
+   */
+  get pending(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Acquires `weight` permits, and waits until they are available.
+   */
+  acquire(weight = 1, options?: AcquireOptions): Promise<Release> {
+    this.#validateWeight(weight);
+    if (options?.signal?.aborted) return Promise.reject(options.signal.reason);
+    const release = this.tryAcquire(weight);
+    if (release) return Promise.resolve(release);
+    return this.#waiters.wait(weight, options);
+  }
+
+  /**
+   * Acquires `weight` permits if they are available and no other waiters are
+   * queued, or returns `null` otherwise.
+   */
+  tryAcquire(weight = 1): Release | null {
+    this.#validateWeight(weight);
+    if (this.#waiters.length !== 0 || weight > this.#available) return null;
+    this.#available -= weight;
+    return this.#createRelease(weight);
+  }
+
+  /**
+   * Calls `fn` after acquiring `weight` permits, and releases them when the
+   * returned promise settles.
+   */
+  async use<T>(
+    fn: () => PromiseLike<T> | T,
+    weight = 1,
+    options?: AcquireOptions,
+  ): Promise<T> {
+    const release = await this.acquire(weight, options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  #validateWeight(weight: number) {
+    if (!Number.isInteger(weight) || weight < 1 || weight > this.permits) {
+      throw new Error(
+        `Invalid weight: ${weight}. Must be an integer between 1 and ` +
+          `${this.permits}.`,
+      );
+    }
+  }
+
+  #createRelease(weight: number): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.#available += weight;
+      this.#dispatch();
+    };
+  }
+
+  #dispatch() {
+    while (this.#waiters.length !== 0) {
+      const weight = this.#waiters.nextWeight!;
+      if (weight > this.#available) return;
+      this.#available -= weight;
+      this.#waiters.resolveNext(this.#createRelease(weight));
+    }
+  }
+}
+
+/**
+ * A `Semaphore` with a single permit.
+ */
+export class Mutex {
+  #semaphore = new Semaphore(1);
+
+  get locked(): boolean {
+    return this.#semaphore.available === 0;
+  }
+
+  /**
+   * Waits until the mutex is unlocked, then locks it.
+   */
+  lock(options?: AcquireOptions): Promise<Release> {
+    return this.#semaphore.acquire(1, options);
+  }
+
+  /**
+   * Calls `fn` while holding the lock, and unlocks the mutex when the returned
+   * promise settles.
+   */
+  runExclusive<T>(
+    fn: () => PromiseLike<T> | T,
+    options?: AcquireOptions,
+  ): Promise<T> {
+    return this.#semaphore.use(fn, 1, options);
+  }
+}
+
+export interface MapConcurrentOptions {
+  /**
+   * The maximum number of `fn` calls that run at the same time. Defaults to
+   * `Infinity`.
+   */
+  readonly concurrency?: number;
+
+  /**
+   * If `signal` is aborted, no new calls are started, and the promise rejects
+   * with `signal.reason`.
+   */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Calls `fn` for each element of `iterable`, with at most `concurrency` calls
+ * running at the same time. Returns the results in iteration order.
+ *
+ * If a call fails, no new calls are started, and the promise rejects with that
+ * error. The `signal` that is passed to `fn` is aborted in this case, so that
+ * running calls can stop early.
+ */
+export function mapConcurrent<T, R>(
+  iterable: Iterable<T>,
+  fn: (element: T, index: number, signal: AbortSignal) => PromiseLike<R> | R,
+  { concurrency = Infinity, signal }: MapConcurrentOptions = {},
+): Promise<R[]> {
+  if (!(concurrency >= 1)) {
+    throw new Error(`Invalid concurrency: ${concurrency}`);
+  }
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const [promise, resolve, reject] = $Promise.create<R[]>();
+  const controller = new AbortController();
+  const onAbort = () => fail(signal!.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const iterator = iterable[Symbol.iterator]();
+  const results: R[] = [];
+  let nextIndex = 0;
+  let running = 0;
+  let done = false;
+
+  function fail(error: unknown) {
+    if (controller.signal.aborted) return;
+    controller.abort(error);
+    signal?.removeEventListener("abort", onAbort);
+    iterator.return?.();
+    reject(error);
+  }
+
+  function next() {
+    while (running < concurrency && !done && !controller.signal.aborted) {
+      let result: IteratorResult<T>;
+      try {
+        result = iterator.next();
+      } catch (e) {
+        return fail(e);
+      }
+      if (result.done) {
+        done = true;
+        break;
+      }
+      const index = nextIndex++;
+      running++;
+      Promise.resolve()
+        .then(() => fn(result.value, index, controller.signal))
+        .then((value) => {
+          results[index] = value;
+          running--;
+          next();
+        }, fail);
+    }
+    if (done && running === 0 && !controller.signal.aborted) {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(results);
+    }
+  }
+
+  next();
+  return promise;
+}
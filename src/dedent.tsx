@@ -1,4 +1,8 @@
 import { assert } from "./assert.js";
+import {
+  spaceOnlyPattern,
+  stripFirstAndLastLine,
+} from "./internal/template.js";
 
 /**
  * Template literal tag that strips spaces from the beginning of all lines.
@@ -27,21 +31,6 @@ export function dedent(chunks: TemplateStringsArray, ...args: any[]) {
     .join("\n");
 }
 
-function stripFirstAndLastLine([...strings]: TemplateStringsArray) {
-  assert(strings[0].startsWith("\n"), "Content must start on a new line.");
-  strings[0] = strings[0].substring(1);
-
-  const last = strings.at(-1)!;
-  const lfIndex = last.lastIndexOf("\n");
-  assert(lfIndex !== -1, "Closing delimiter must appear on a new line.");
-  strings[strings.length - 1] = last.substring(0, lfIndex);
-
-  const indent = last.substring(lfIndex + 1);
-  assert(spaceOnlyPattern.test(indent), "Last line may only contain spaces.");
-
-  return { strings, indent };
-}
-
 function concatArgs(strings: readonly string[], args: readonly any[]) {
   let result = "";
   for (let i = 0; i < strings.length; i++) {
@@ -66,5 +55,3 @@ function concatArgs(strings: readonly string[], args: readonly any[]) {
 
   return result;
 }
-
-const spaceOnlyPattern = /^ *$/;
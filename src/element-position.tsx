@@ -1,3 +1,5 @@
+import { clamp } from "./math.js";
+
 export interface Position {
   readonly rootWidth: number;
   readonly rootHeight: number;
@@ -34,3 +36,166 @@ export function marginBottom(p: Position): number {
 export function marginRight(p: Position): number {
   return p.rootWidth - p.left - p.width;
 }
+
+export type Side = "top" | "right" | "bottom" | "left";
+export type Alignment = "start" | "end";
+
+/**
+ * The side of the anchor on which the floating element is placed, and its
+ * alignment along that side. Without alignment, the floating element is
+ * centered on the anchor.
+ */
+export type Placement = Side | `${Side}-${Alignment}`;
+
+export interface PlacementOptions {
+  /**
+   * The preferred placement. Defaults to `"bottom"`.
+   */
+  readonly placement?: Placement;
+
+  /**
+   * The distance between the anchor and the floating element. Defaults to 0.
+   */
+  readonly offset?: number;
+
+  /**
+   * The minimum distance between the floating element and the root edges.
+   * Defaults to 0.
+   */
+  readonly padding?: number;
+
+  /**
+   * If `true`, the floating element is placed on the opposite side of the
+   * anchor if it doesn't fit on the preferred side, and the opposite side has
+   * more space. Defaults to `true`.
+   */
+  readonly flip?: boolean;
+
+  /**
+   * If `true`, the floating element is moved along the anchor side to stay
+   * inside the root. Defaults to `true`.
+   */
+  readonly shift?: boolean;
+
+  /**
+   * The minimum distance between the arrow center and the floating element
+   * corners, for example to keep the arrow clear of rounded corners. Defaults
+   * to 0.
+   */
+  readonly arrowPadding?: number;
+}
+
+export interface PlacementResult {
+  /**
+   * The placement after flipping.
+   */
+  readonly placement: Placement;
+
+  /**
+   * The distance between the root top and floating element top edge.
+   */
+  readonly top: number;
+
+  /**
+   * The distance between the root left and floating element left edge.
+   */
+  readonly left: number;
+
+  /**
+   * The position of the arrow center, measured from the floating element left
+   * edge for top and bottom placements, or from its top edge for left and
+   * right placements. Points at the anchor center where possible.
+   */
+  readonly arrowOffset: number;
+
+  /**
+   * The maximum size that the floating element may have to fit into the root
+   * at this placement.
+   */
+  readonly availableWidth: number;
+  readonly availableHeight: number;
+}
+
+/**
+ * Returns the position of a floating element of size `width` × `height` that
+ * is attached to `anchor`, like a popover or tooltip.
+ */
+export function computePlacement(
+  anchor: Position,
+  { width, height }: { readonly width: number; readonly height: number },
+  {
+    placement = "bottom",
+    offset = 0,
+    padding = 0,
+    flip = true,
+    shift = true,
+    arrowPadding = 0,
+  }: PlacementOptions = {},
+): PlacementResult {
+  let [side, alignment] = placement.split("-") as [Side, Alignment?];
+  const vertical = side === "top" || side === "bottom";
+  const space = (side: Side) => {
+    const margin =
+      side === "top"
+        ? anchor.top
+        : side === "bottom"
+        ? marginBottom(anchor)
+        : side === "left"
+        ? anchor.left
+        : marginRight(anchor);
+    return margin - offset - padding;
+  };
+
+  if (flip && space(side) < (vertical ? height : width)) {
+    const opposite = oppositeSides[side];
+    if (space(opposite) > space(side)) side = opposite;
+  }
+
+  const [anchorStart, anchorSize, floatingSize, rootSize] = vertical
+    ? [anchor.left, anchor.width, width, anchor.rootWidth]
+    : [anchor.top, anchor.height, height, anchor.rootHeight];
+  let start =
+    alignment === "start"
+      ? anchorStart
+      : alignment === "end"
+      ? anchorStart + anchorSize - floatingSize
+      : anchorStart + (anchorSize - floatingSize) / 2;
+  if (shift) {
+    start = Math.max(
+      padding,
+      Math.min(start, rootSize - padding - floatingSize),
+    );
+  }
+  const arrowOffset = clamp(
+    anchorStart + anchorSize / 2 - start,
+    arrowPadding,
+    Math.max(arrowPadding, floatingSize - arrowPadding),
+  );
+
+  const mainStart =
+    side === "top"
+      ? anchor.top - offset - height
+      : side === "bottom"
+      ? offsetBottom(anchor) + offset
+      : side === "left"
+      ? anchor.left - offset - width
+      : offsetRight(anchor) + offset;
+  const crossSpace = Math.max(0, rootSize - 2 * padding);
+  const mainSpace = Math.max(0, space(side));
+
+  return {
+    placement: alignment ? `${side}-${alignment}` : side,
+    top: vertical ? mainStart : start,
+    left: vertical ? start : mainStart,
+    arrowOffset,
+    availableWidth: vertical ? crossSpace : mainSpace,
+    availableHeight: vertical ? mainSpace : crossSpace,
+  };
+}
+
+const oppositeSides: { readonly [S in Side]: Side } = {
+  top: "bottom",
+  right: "left",
+  bottom: "top",
+  left: "right",
+};
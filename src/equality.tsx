@@ -0,0 +1,303 @@
+/**
+ * @module
+ * Structural equality and hashing.
+ * Import like this: `import * as $Equality from "@pschiffmann/std/equality";`
+ */
+
+/**
+ * Returns `true` iff `a` and `b` are structurally equal. Can be passed as the
+ * comparator to `$Array.equals()`, `$Map.equals()` and `$Set.equals()`.
+ *
+ * Primitives are compared with `Object.is`. Objects must have the same
+ * prototype, and are compared by type:
+ *
+ * - Arrays are equal if they have the same length and equal elements.
+ * - `Map`s are equal if they have the same size, and each entry of `a` has an
+ *   equal entry in `b`. Keys that are contained in both maps are compared
+ *   with `has()`; other keys are matched structurally.
+ * - `Set`s are equal if each element of `a` has an equal element in `b`.
+ * - `Date`s, `RegExp`s, boxed primitives, typed arrays and `ArrayBuffer`s are
+ *   compared by value.
+ * - Functions are only equal to themselves.
+ * - `Error`s must have the same `name` and `message`, in addition to the own
+ *   enumerable keys that are compared for all other objects.
+ * - All other objects are equal if they have the same own enumerable string
+ *   keys with equal values.
+ *
+ * Supports cyclic references.
+ */
+export function deepEquals(a: unknown, b: unknown): boolean {
+  return equalsRecursive(a, b, new Map());
+}
+
+/**
+ * Returns a 32 bit integer hash of `value`, so that values that are equal
+ * according to `deepEquals()` have the same hash.
+ *
+ * Objects that contain cyclic references are only hashed by their type and
+ * shape, not their values.
+ */
+export function structuralHash(value: unknown): number {
+  return hashRecursive(value, new Set()).hash >>> 0;
+}
+
+/**
+ * Pairs of objects that are currently being compared. Each pair is assumed to
+ * be equal while its contents are compared, which makes cyclic references
+ * compare as equal if their structure matches.
+ */
+type ComparisonStack = Map<object, object[]>;
+
+function equalsRecursive(a: unknown, b: unknown, stack: ComparisonStack) {
+  if (Object.is(a, b)) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  const pending = stack.get(a);
+  if (pending?.includes(b)) return true;
+  if (pending) pending.push(b);
+  else stack.set(a, [b]);
+  try {
+    return equalsObject(a, b, stack);
+  } finally {
+    const pending = stack.get(a)!;
+    pending.pop();
+    if (pending.length === 0) stack.delete(a);
+  }
+}
+
+function equalsObject(a: object, b: object, stack: ComparisonStack): boolean {
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    if (a.length !== other.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!equalsRecursive(a[i], other[i], stack)) return false;
+    }
+    return true;
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    const unmatched: [unknown, unknown][] = [];
+    for (const [k, v] of a) {
+      if (!other.has(k)) unmatched.push([k, v]);
+      else if (!equalsRecursive(v, other.get(k), stack)) return false;
+    }
+    if (unmatched.length === 0) return true;
+    const candidates = [...other].filter(([k]) => !a.has(k));
+    return unmatched.every(([k, v]) => {
+      const i = candidates.findIndex(
+        ([ck, cv]) =>
+          equalsRecursive(k, ck, stack) && equalsRecursive(v, cv, stack),
+      );
+      if (i !== -1) candidates.splice(i, 1);
+      return i !== -1;
+    });
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) return false;
+    const unmatched = [...a].filter((el) => !other.has(el));
+    if (unmatched.length === 0) return true;
+    const candidates = [...other].filter((el) => !a.has(el));
+    return unmatched.every((el) => {
+      const i = candidates.findIndex((c) => equalsRecursive(el, c, stack));
+      if (i !== -1) candidates.splice(i, 1);
+      return i !== -1;
+    });
+  }
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime());
+  }
+  if (a instanceof RegExp) {
+    const other = b as RegExp;
+    return a.source === other.source && a.flags === other.flags;
+  }
+  if (
+    a instanceof Number ||
+    a instanceof String ||
+    a instanceof Boolean ||
+    a instanceof BigInt ||
+    a instanceof Symbol
+  ) {
+    return Object.is(a.valueOf(), b.valueOf());
+  }
+  if (ArrayBuffer.isView(a) || a instanceof ArrayBuffer) {
+    const x = toBytes(a);
+    const y = toBytes(b as ArrayBufferView | ArrayBuffer);
+    if (x.length !== y.length) return false;
+    for (let i = 0; i < x.length; i++) {
+      if (x[i] !== y[i]) return false;
+    }
+    return true;
+  }
+  if (a instanceof Error) {
+    const other = b as Error;
+    if (a.name !== other.name || a.message !== other.message) return false;
+  }
+
+  const x = a as Record<string, unknown>;
+  const y = b as Record<string, unknown>;
+  const keys = Object.keys(x);
+  if (keys.length !== Object.keys(y).length) return false;
+  for (const key of keys) {
+    if (
+      !Object.prototype.hasOwnProperty.call(y, key) ||
+      !equalsRecursive(x[key], y[key], stack)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function toBytes(value: ArrayBufferView | ArrayBuffer) {
+  return ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value);
+}
+
+interface HashResult {
+  readonly hash: number;
+
+  /**
+   * `true` if a cyclic reference is reachable from the hashed value.
+   */
+  readonly cyclic: boolean;
+}
+
+/**
+ * Objects with reachable cyclic references are hashed by their shape only.
+ * `deepEquals()` compares the infinite unfolding of cyclic structures, so
+ * two equal values may contain their cycles at different depths; their
+ * shapes are equal nonetheless.
+ */
+function hashRecursive(value: unknown, path: Set<object>): HashResult {
+  if (typeof value !== "object" || value === null) {
+    return { hash: hashPrimitive(value), cyclic: false };
+  }
+  if (path.has(value)) return { hash: 0, cyclic: true };
+
+  path.add(value);
+  try {
+    return hashObject(value, path);
+  } finally {
+    path.delete(value);
+  }
+}
+
+function hashObject(value: object, path: Set<object>): HashResult {
+  const tag = hashString(
+    Object.prototype.toString.call(value) +
+      (Object.getPrototypeOf(value)?.constructor?.name ?? ""),
+  );
+  let hash = tag;
+  let cyclic = false;
+  const add = (child: unknown) => {
+    const result = hashRecursive(child, path);
+    cyclic ||= result.cyclic;
+    return result.hash;
+  };
+
+  if (Array.isArray(value)) {
+    for (const el of value) hash = combine(hash, add(el));
+    return cyclic
+      ? { hash: combine(tag, value.length), cyclic }
+      : { hash, cyclic };
+  }
+  if (value instanceof Map) {
+    let entries = 0;
+    for (const [k, v] of value) {
+      entries = (entries + combine(add(k), add(v))) | 0;
+    }
+    return cyclic
+      ? { hash: combine(tag, value.size), cyclic }
+      : { hash: combine(hash, entries), cyclic };
+  }
+  if (value instanceof Set) {
+    let elements = 0;
+    for (const el of value) elements = (elements + add(el)) | 0;
+    return cyclic
+      ? { hash: combine(tag, value.size), cyclic }
+      : { hash: combine(hash, elements), cyclic };
+  }
+  if (value instanceof Date) {
+    return { hash: combine(tag, hashPrimitive(value.getTime())), cyclic };
+  }
+  if (value instanceof RegExp) {
+    return {
+      hash: combine(tag, hashString(`/${value.source}/${value.flags}`)),
+      cyclic,
+    };
+  }
+  if (
+    value instanceof Number ||
+    value instanceof String ||
+    value instanceof Boolean ||
+    value instanceof BigInt ||
+    value instanceof Symbol
+  ) {
+    return { hash: combine(tag, hashPrimitive(value.valueOf())), cyclic };
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    for (const byte of toBytes(value)) hash = combine(hash, byte);
+    return { hash, cyclic };
+  }
+
+  if (value instanceof Error) {
+    hash = combine(hash, hashPrimitive(value.name));
+    hash = combine(hash, hashPrimitive(value.message));
+  }
+  let keys = 0;
+  let entries = 0;
+  for (const [k, v] of Object.entries(value)) {
+    const keyHash = hashString(k);
+    keys = (keys + keyHash) | 0;
+    entries = (entries + combine(keyHash, add(v))) | 0;
+  }
+  return { hash: combine(hash, cyclic ? keys : entries), cyclic };
+}
+
+function hashPrimitive(value: unknown): number {
+  switch (typeof value) {
+    case "string":
+      return combine(1, hashString(value));
+    case "number":
+      return combine(2, hashString(Object.is(value, -0) ? "-0" : `${value}`));
+    case "bigint":
+      return combine(3, hashString(`${value}`));
+    case "boolean":
+      return value ? 4 : 5;
+    case "undefined":
+      return 6;
+    case "symbol":
+      return combine(7, hashString(value.description ?? ""));
+    case "function":
+      return combine(8, hashString(value.name));
+    default:
+      return 9;
+  }
+}
+
+/**
+ * [FNV-1a](https://en.wikipedia.org/wiki/Fowler%E2%80%93Noll%E2%80%93Vo_hash_function)
+ * hash of the UTF-16 code units of `s`.
+ */
+function hashString(s: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    hash = Math.imul(hash ^ s.charCodeAt(i), 0x01000193);
+  }
+  return hash;
+}
+
+function combine(hash: number, value: number): number {
+  return (Math.imul(hash ^ value, 0x01000193) + 0x9e3779b9) | 0;
+}
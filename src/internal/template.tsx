@@ -0,0 +1,28 @@
+/**
+ * @module
+ * Template string helpers that are shared by `dedent` and `code-writer`. This
+ * module is not exported from the package.
+ */
+
+import { assert } from "../assert.js";
+
+/**
+ * Removes the leading line feed and the closing delimiter line from `strings`,
+ * and returns the indentation of the closing delimiter line.
+ */
+export function stripFirstAndLastLine([...strings]: TemplateStringsArray) {
+  assert(strings[0].startsWith("\n"), "Content must start on a new line.");
+  strings[0] = strings[0].substring(1);
+
+  const last = strings.at(-1)!;
+  const lfIndex = last.lastIndexOf("\n");
+  assert(lfIndex !== -1, "Closing delimiter must appear on a new line.");
+  strings[strings.length - 1] = last.substring(0, lfIndex);
+
+  const indent = last.substring(lfIndex + 1);
+  assert(spaceOnlyPattern.test(indent), "Last line may only contain spaces.");
+
+  return { strings, indent };
+}
+
+export const spaceOnlyPattern = /^ *$/;
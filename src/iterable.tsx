@@ -1,9 +1,276 @@
+/**
+ * @module
+ * Lazy utility functions for working with iterables. Functions that return an
+ * iterable don't consume `self` until the result is iterated, and close the
+ * iterators of `self` if the result iteration stops early.
+ * Import like this: `import * as $Iterable from "@pschiffmann/std/iterable";`
+ */
+
 /**
  * Returns the first element of `self` in iteration order, or `undefined` if
  * `self` is empty.
  */
 export function first<T>(self: Iterable<T>): T | undefined {
-  const it = self[Symbol.iterator]();
-  const { done, value } = it.next();
-  return done ? undefined : value;
+  for (const el of self) return el;
+  return undefined;
+}
+
+export function* map<T, U>(
+  self: Iterable<T>,
+  f: (el: T, index: number) => U,
+): Iterable<U> {
+  let i = 0;
+  for (const el of self) yield f(el, i++);
+}
+
+export function filter<T, S extends T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => el is S,
+): Iterable<S>;
+export function filter<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Iterable<T>;
+export function* filter<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Iterable<T> {
+  let i = 0;
+  for (const el of self) {
+    if (predicate(el, i++)) yield el;
+  }
+}
+
+export function* flatMap<T, U>(
+  self: Iterable<T>,
+  f: (el: T, index: number) => Iterable<U>,
+): Iterable<U> {
+  let i = 0;
+  for (const el of self) yield* f(el, i++);
+}
+
+/**
+ * Yields the first `n` elements of `self`.
+ */
+export function* take<T>(self: Iterable<T>, n: number): Iterable<T> {
+  if (n <= 0) return;
+  let i = 0;
+  for (const el of self) {
+    yield el;
+    if (++i >= n) return;
+  }
+}
+
+/**
+ * Yields all elements of `self` except the first `n`.
+ */
+export function* drop<T>(self: Iterable<T>, n: number): Iterable<T> {
+  let i = 0;
+  for (const el of self) {
+    if (i++ >= n) yield el;
+  }
+}
+
+/**
+ * Yields elements of `self` until `predicate` returns a falsy value for the
+ * first time.
+ */
+export function* takeWhile<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Iterable<T> {
+  let i = 0;
+  for (const el of self) {
+    if (!predicate(el, i++)) return;
+    yield el;
+  }
+}
+
+/**
+ * Skips elements of `self` until `predicate` returns a falsy value for the
+ * first time, then yields that and all remaining elements.
+ */
+export function* dropWhile<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): Iterable<T> {
+  let i = 0;
+  let dropping = true;
+  for (const el of self) {
+    if (dropping && predicate(el, i++)) continue;
+    dropping = false;
+    yield el;
+  }
+}
+
+/**
+ * Yields tuples of the elements of all `iterables` at the same index. Stops
+ * when the shortest iterable is exhausted.
+ */
+export function* zip<T extends unknown[]>(
+  ...iterables: { readonly [K in keyof T]: Iterable<T[K]> }
+): Iterable<T> {
+  const iterators: (Iterator<unknown> | null)[] = iterables.map((iterable) =>
+    iterable[Symbol.iterator](),
+  );
+  try {
+    while (true) {
+      const values: unknown[] = [];
+      for (let i = 0; i < iterators.length; i++) {
+        const iterator = iterators[i]!;
+        // Iterators that are exhausted or threw must not be closed.
+        iterators[i] = null;
+        const result = iterator.next();
+        if (result.done) return;
+        iterators[i] = iterator;
+        values.push(result.value);
+      }
+      if (values.length === 0) return;
+      yield values as T;
+    }
+  } finally {
+    for (const iterator of iterators) iterator?.return?.();
+  }
+}
+
+/**
+ * Yields arrays of `size` consecutive elements of `self`. The last array
+ * contains fewer elements if the number of elements isn't divisible by `size`.
+ */
+export function* chunk<T>(self: Iterable<T>, size: number): Iterable<T[]> {
+  assertPositiveInteger(size);
+  let chunk: T[] = [];
+  for (const el of self) {
+    chunk.push(el);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length !== 0) yield chunk;
+}
+
+/**
+ * Yields all arrays of `size` consecutive elements of `self`, in a sliding
+ * window. Yields nothing if `self` contains fewer than `size` elements.
+ */
+export function* window<T>(self: Iterable<T>, size: number): Iterable<T[]> {
+  assertPositiveInteger(size);
+  const window: T[] = [];
+  for (const el of self) {
+    window.push(el);
+    if (window.length > size) window.shift();
+    if (window.length === size) yield [...window];
+  }
+}
+
+/**
+ * Yields `[index, element]` pairs.
+ */
+export function* enumerate<T>(self: Iterable<T>): Iterable<[number, T]> {
+  let i = 0;
+  for (const el of self) yield [i++, el];
+}
+
+/**
+ * Groups the elements of `self` by the result of `key`. Groups are ordered by
+ * their first element.
+ */
+export function groupBy<T, K>(
+  self: Iterable<T>,
+  key: (el: T, index: number) => K,
+): Map<K, T[]> {
+  const result = new Map<K, T[]>();
+  let i = 0;
+  for (const el of self) {
+    const k = key(el, i++);
+    const group = result.get(k);
+    if (group) group.push(el);
+    else result.set(k, [el]);
+  }
+  return result;
+}
+
+/**
+ * Returns the elements for which `predicate` returns a truthy value, and the
+ * remaining elements.
+ */
+export function partition<T, S extends T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => el is S,
+): [S[], Exclude<T, S>[]];
+export function partition<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): [T[], T[]];
+export function partition<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): [T[], T[]] {
+  const matches: T[] = [];
+  const rest: T[] = [];
+  let i = 0;
+  for (const el of self) {
+    (predicate(el, i++) ? matches : rest).push(el);
+  }
+  return [matches, rest];
+}
+
+export function reduce<T, U>(
+  self: Iterable<T>,
+  f: (accumulator: U, el: T, index: number) => U,
+  initialValue: U,
+): U {
+  let result = initialValue;
+  let i = 0;
+  for (const el of self) result = f(result, el, i++);
+  return result;
+}
+
+/**
+ * Returns `true` iff `predicate` returns a truthy value for any element.
+ * Stops iterating at the first match.
+ */
+export function some<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): boolean {
+  let i = 0;
+  for (const el of self) {
+    if (predicate(el, i++)) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns `true` iff `predicate` returns a truthy value for all elements.
+ * Stops iterating at the first mismatch.
+ */
+export function every<T>(
+  self: Iterable<T>,
+  predicate: (el: T, index: number) => unknown,
+): boolean {
+  let i = 0;
+  for (const el of self) {
+    if (!predicate(el, i++)) return false;
+  }
+  return true;
+}
+
+export function toArray<T>(self: Iterable<T>): T[] {
+  return [...self];
+}
+
+export function toSet<T>(self: Iterable<T>): Set<T> {
+  return new Set(self);
+}
+
+export function toMap<K, V>(self: Iterable<readonly [K, V]>): Map<K, V> {
+  return new Map(self);
+}
+
+function assertPositiveInteger(size: number) {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid size: ${size}. Must be a positive integer.`);
+  }
 }
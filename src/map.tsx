@@ -1,16 +1,21 @@
 /**
  * @module
- * Utility functions for working with sets.
- * Import like this: `import * as $Set from "@pschiffmann/std/set";`
+ * Utility functions for working with maps.
+ * Import like this: `import * as $Map from "@pschiffmann/std/map";`
  */
 
 /**
- * Returns `true` iff `a` and `b` contain the same elements.
+ * Returns `true` iff `a` and `b` contain the same keys, and the same values for
+ * each key. Values are compared with `compare`, which defaults to `Object.is`.
  */
-export function equals<K, V>(a: Map<K, V>, b: Map<K, V>): boolean {
+export function equals<K, V>(
+  a: Map<K, V>,
+  b: Map<K, V>,
+  compare: (a: V, b: V) => boolean = Object.is,
+): boolean {
   if (a.size !== b.size) return false;
   for (const [k, v] of a) {
-    if (!b.has(k) || !Object.is(b.get(k), v)) return false;
+    if (!b.has(k) || !compare(v, b.get(k)!)) return false;
   }
   return true;
 }
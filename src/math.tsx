@@ -1,20 +1,546 @@
+import * as $Random from "./random.js";
+import { upperBound } from "./sorted-array.js";
+
 export function clamp(self: number, min: number, max: number) {
   return Math.min(Math.max(self, min), max);
 }
 
-export function sum(values: number[]): number {
-  let result = 0;
-  for (const n of values) result += n;
+/**
+ * Returns the sum of `values`. Uses
+ * [Neumaier summation](https://en.wikipedia.org/wiki/Kahan_summation_algorithm#Further_enhancements)
+ * to compensate for rounding errors.
+ */
+export function sum(values: Iterable<number>): number {
+  const result = new CompensatedSum();
+  for (const n of values) result.add(n);
+  return result.value;
+}
+
+/**
+ * Returns the arithmetic mean of `values`, or `NaN` if `values` is empty.
+ */
+export function mean(values: Iterable<number>): number {
+  return RunningStats.from(values).mean;
+}
+
+export interface VarianceOptions {
+  /**
+   * If `true`, returns the sample variance (divides by n - 1) instead of the
+   * population variance (divides by n). Defaults to `false`.
+   */
+  readonly sample?: boolean;
+}
+
+/**
+ * Returns the variance of `values`, computed with Welford's algorithm. Returns
+ * `NaN` if `values` is empty, or if it contains only one element and
+ * `options.sample` is `true`.
+ */
+export function variance(
+  values: Iterable<number>,
+  options?: VarianceOptions,
+): number {
+  return RunningStats.from(values).variance(options);
+}
+
+/**
+ * Returns the standard deviation of `values`, see `variance()`.
+ */
+export function stddev(
+  values: Iterable<number>,
+  options?: VarianceOptions,
+): number {
+  return RunningStats.from(values).stddev(options);
+}
+
+/**
+ * Returns the smallest element of `values`, or `Infinity` if `values` is
+ * empty. Like `Math.min()`, but doesn't overflow the stack for large inputs.
+ */
+export function min(values: Iterable<number>): number {
+  let result = Infinity;
+  for (const n of values) result = Math.min(result, n);
+  return result;
+}
+
+/**
+ * Returns the largest element of `values`, or `-Infinity` if `values` is
+ * empty. Like `Math.max()`, but doesn't overflow the stack for large inputs.
+ */
+export function max(values: Iterable<number>): number {
+  let result = -Infinity;
+  for (const n of values) result = Math.max(result, n);
   return result;
 }
 
+export function median(values: Iterable<number>): number {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Returns the `q`-quantile of `values`, linearly interpolated between the two
+ * closest elements. Returns `NaN` if `values` is empty.
+ *
+ * Throws an error if `q` is not in range [0, 1].
+ */
+export function quantile(values: Iterable<number>, q: number): number {
+  return quantiles(values, [q])[0];
+}
+
+/**
+ * Returns the quantiles of `values` for all elements of `qs`, see
+ * `quantile()`. Sorts `values` only once.
+ */
+export function quantiles(
+  values: Iterable<number>,
+  qs: readonly number[],
+): number[] {
+  qs.forEach(assertQuantile);
+  const sorted = Float64Array.from(values).sort();
+  return qs.map((q) => {
+    if (sorted.length === 0) return NaN;
+    const rank = q * (sorted.length - 1);
+    const i = Math.floor(rank);
+    return i + 1 < sorted.length
+      ? sorted[i] + (rank - i) * (sorted[i + 1] - sorted[i])
+      : sorted[i];
+  });
+}
+
+export interface HistogramBin {
+  /**
+   * Inclusive lower bound.
+   */
+  readonly start: number;
+
+  /**
+   * Exclusive upper bound. The upper bound of the last bin is inclusive.
+   */
+  readonly end: number;
+
+  readonly count: number;
+}
+
+export interface HistogramOptions {
+  /**
+   * Either the number of bins with equal width, or an ascending list of bin
+   * edges. Defaults to 10.
+   */
+  readonly bins?: number | readonly number[];
+
+  /**
+   * Lower bound of the first bin, if `bins` is a number. Defaults to the
+   * smallest value.
+   */
+  readonly min?: number;
+
+  /**
+   * Upper bound of the last bin, if `bins` is a number. Defaults to the
+   * largest value.
+   */
+  readonly max?: number;
+}
+
+/**
+ * Counts how many `values` fall into each bin. Values outside of all bins and
+ * `NaN` values are ignored. Returns an empty array if `bins` is a number and
+ * `values` is empty.
+ */
+export function histogram(
+  values: Iterable<number>,
+  { bins = 10, min: start, max: end }: HistogramOptions = {},
+): HistogramBin[] {
+  let edges: readonly number[];
+  if (typeof bins === "number") {
+    if (!Number.isInteger(bins) || bins < 1) {
+      throw new Error(`Invalid bins: ${bins}. Must be a positive integer.`);
+    }
+    if (start === undefined || end === undefined) {
+      values = [...values];
+      start ??= min(values);
+      end ??= max(values);
+      if (start > end) return [];
+    }
+    const width = (end - start) / bins;
+    edges = Array.from({ length: bins + 1 }, (_, i) =>
+      i === bins ? end! : start! + i * width,
+    );
+  } else {
+    edges = bins;
+  }
+  if (edges.length < 2 || edges.some((edge, i) => i && edge < edges[i - 1])) {
+    throw new Error(`Invalid bin edges: [${edges.join(", ")}].`);
+  }
+
+  const counts = new Array<number>(edges.length - 1).fill(0);
+  const last = edges[edges.length - 1];
+  for (const n of values) {
+    if (n === last) {
+      counts[counts.length - 1]++;
+    } else {
+      const i = upperBound(edges, n) - 1;
+      if (i >= 0 && i < counts.length) counts[i]++;
+    }
+  }
+  return counts.map((count, i) => ({
+    start: edges[i],
+    end: edges[i + 1],
+    count,
+  }));
+}
+
 /**
- * Returns a random integer from range [min, max).
+ * Returns a random integer from range [min, max). `min` and `max` are rounded
+ * towards the inside of the range.
  *
- * https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Math/random#getting_a_random_integer_between_two_values
+ * Uses `$Random.int()` if the rounded range is valid for it. Otherwise, e.g.
+ * for empty ranges or bounds that aren't safe integers, falls back to the
+ * lenient (and slightly biased) formula of previous versions instead of
+ * throwing.
  */
-export function getRandomInt(min: number, max: number) {
+export function getRandomInt(
+  min: number,
+  max: number,
+  generator?: $Random.RandomGenerator,
+) {
   min = Math.ceil(min);
   max = Math.floor(max);
-  return Math.floor(Math.random() * (max - min) + min);
+  if (
+    Number.isSafeInteger(min) &&
+    Number.isSafeInteger(max) &&
+    min < max &&
+    max - min <= 2 ** 53
+  ) {
+    return $Random.int(min, max, generator);
+  }
+  return Math.floor($Random.float(0, 1, generator) * (max - min) + min);
+}
+
+/**
+ * Accumulates count, sum, mean, variance, min and max of a stream of numbers
+ * in constant memory, with Welford's algorithm.
+ */
+export class RunningStats {
+  static from(values: Iterable<number>): RunningStats {
+    const result = new RunningStats();
+    for (const n of values) result.add(n);
+    return result;
+  }
+
+  #count = 0;
+  #sum = new CompensatedSum();
+  #mean = 0;
+  #m2 = 0;
+  #min = Infinity;
+  #max = -Infinity;
+
+  get count(): number {
+    return this.#count;
+  }
+
+  get sum(): number {
+    return this.#sum.value;
+  }
+
+  /**
+   * `NaN` if no values have been added.
+   */
+  get mean(): number {
+    if (this.#count === 0) return NaN;
+    // Welford's mean becomes `NaN` after an infinite value; fall back to the
+    // sum, which is `Infinity` or `-Infinity` in that case.
+    return Number.isFinite(this.#mean) ? this.#mean : this.sum / this.#count;
+  }
+
+  /**
+   * `Infinity` if no values have been added.
+   */
+  get min(): number {
+    return this.#min;
+  }
+
+  /**
+   * `-Infinity` if no values have been added.
+   */
+  get max(): number {
+    return this.#max;
+  }
+
+  add(value: number): void {
+    this.#count++;
+    this.#sum.add(value);
+    const delta = value - this.#mean;
+    this.#mean += delta / this.#count;
+    this.#m2 += delta * (value - this.#mean);
+    this.#min = Math.min(this.#min, value);
+    this.#max = Math.max(this.#max, value);
+  }
+
+  /**
+   * Adds all values that have been added to `other` to this object.
+   */
+  merge(other: RunningStats): void {
+    if (other.#count === 0) return;
+    const count = this.#count + other.#count;
+    const delta = other.#mean - this.#mean;
+    this.#mean += (delta * other.#count) / count;
+    this.#m2 +=
+      other.#m2 + (delta * delta * this.#count * other.#count) / count;
+    this.#count = count;
+    this.#sum.add(other.#sum.value);
+    this.#min = Math.min(this.#min, other.#min);
+    this.#max = Math.max(this.#max, other.#max);
+  }
+
+  /**
+   * See `$Math.variance()`.
+   */
+  variance({ sample = false }: VarianceOptions = {}): number {
+    const n = sample ? this.#count - 1 : this.#count;
+    return n > 0 ? this.#m2 / n : NaN;
+  }
+
+  stddev(options?: VarianceOptions): number {
+    return Math.sqrt(this.variance(options));
+  }
+}
+
+export interface QuantileSketchOptions {
+  /**
+   * Upper bound for the relative error of `QuantileSketch.quantile()`.
+   * Defaults to 0.01.
+   */
+  readonly relativeAccuracy?: number;
+
+  /**
+   * The maximum number of buckets for positive values, and for negative
+   * values. If exceeded, the buckets with the smallest absolute values are
+   * merged, so the relative error of quantiles close to 0 increases. Defaults
+   * to 2048.
+   */
+  readonly maxBuckets?: number;
+}
+
+/**
+ * Approximates the quantiles of a stream of numbers in bounded memory. Based
+ * on [DDSketch](https://arxiv.org/abs/1908.10693): Values are counted in
+ * buckets with exponentially growing boundaries, so each quantile is accurate
+ * within `relativeAccuracy` of the exact value. Sketches with the same options
+ * can be merged, e.g. to combine the sketches of multiple servers or time
+ * intervals.
+ */
+export class QuantileSketch {
+  constructor({
+    relativeAccuracy = 0.01,
+    maxBuckets = 2048,
+  }: QuantileSketchOptions = {}) {
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error(
+        `Invalid relativeAccuracy: ${relativeAccuracy}. Must be in range ` +
+          `(0, 1).`,
+      );
+    }
+    if (!Number.isInteger(maxBuckets) || maxBuckets < 1) {
+      throw new Error(
+        `Invalid maxBuckets: ${maxBuckets}. Must be a positive integer.`,
+      );
+    }
+    this.#relativeAccuracy = relativeAccuracy;
+    this.#gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.#logGamma = Math.log(this.#gamma);
+    this.#maxBuckets = maxBuckets;
+  }
+
+  readonly #relativeAccuracy: number;
+  readonly #gamma: number;
+  readonly #logGamma: number;
+  readonly #maxBuckets: number;
+  readonly #positive = new BucketStore();
+  readonly #negative = new BucketStore();
+  #zero = 0;
+  #count = 0;
+  #min = Infinity;
+  #max = -Infinity;
+
+  get count(): number {
+    return this.#count;
+  }
+
+  /**
+   * `Infinity` if no values have been added.
+   */
+  get min(): number {
+    return this.#min;
+  }
+
+  /**
+   * `-Infinity` if no values have been added.
+   */
+  get max(): number {
+    return this.#max;
+  }
+
+  /**
+   * Throws an error if `value` is not finite.
+   */
+  add(value: number): void {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid value: ${value}. Must be finite.`);
+    }
+    this.#count++;
+    this.#min = Math.min(this.#min, value);
+    this.#max = Math.max(this.#max, value);
+    if (value === 0) {
+      this.#zero++;
+    } else {
+      const store = value > 0 ? this.#positive : this.#negative;
+      store.add(this.#index(Math.abs(value)), 1);
+      store.collapse(this.#maxBuckets);
+    }
+  }
+
+  /**
+   * Adds all values that have been added to `other` to this sketch.
+   *
+   * Throws an error if the sketches have different options.
+   */
+  merge(other: QuantileSketch): void {
+    if (
+      this.#relativeAccuracy !== other.#relativeAccuracy ||
+      this.#maxBuckets !== other.#maxBuckets
+    ) {
+      throw new Error("Can't merge sketches with different options.");
+    }
+    for (const [store, otherStore] of [
+      [this.#positive, other.#positive],
+      [this.#negative, other.#negative],
+    ] as const) {
+      for (const [index, count] of otherStore.entries()) {
+        store.add(index, count);
+      }
+      store.collapse(this.#maxBuckets);
+    }
+    this.#zero += other.#zero;
+    this.#count += other.#count;
+    this.#min = Math.min(this.#min, other.#min);
+    this.#max = Math.max(this.#max, other.#max);
+  }
+
+  /**
+   * Returns the approximate `q`-quantile of all added values, or `NaN` if no
+   * values have been added. `quantile(0)` and `quantile(1)` are exact.
+   *
+   * Throws an error if `q` is not in range [0, 1].
+   */
+  quantile(q: number): number {
+    assertQuantile(q);
+    if (this.#count === 0) return NaN;
+    if (q === 0) return this.#min;
+    if (q === 1) return this.#max;
+
+    const rank = q * (this.#count - 1);
+    let seen = 0;
+    for (const [index, count] of this.#negative.entries().reverse()) {
+      seen += count;
+      if (seen > rank) return this.#clamp(-this.#value(index));
+    }
+    seen += this.#zero;
+    if (seen > rank) return 0;
+    for (const [index, count] of this.#positive.entries()) {
+      seen += count;
+      if (seen > rank) return this.#clamp(this.#value(index));
+    }
+    return this.#max;
+  }
+
+  /**
+   * Bucket `i` contains the values in range (gamma^(i-1), gamma^i].
+   */
+  #index(value: number): number {
+    return Math.ceil(Math.log(value) / this.#logGamma);
+  }
+
+  /**
+   * Returns the value within `relativeAccuracy` of all values in bucket `i`.
+   */
+  #value(index: number): number {
+    return (2 * this.#gamma ** index) / (this.#gamma + 1);
+  }
+
+  #clamp(value: number): number {
+    return clamp(value, this.#min, this.#max);
+  }
+}
+
+class CompensatedSum {
+  #sum = 0;
+  #compensation = 0;
+
+  get value(): number {
+    // The compensation is meaningless once the sum overflowed, or contains
+    // infinite values.
+    return Number.isFinite(this.#sum)
+      ? this.#sum + this.#compensation
+      : this.#sum;
+  }
+
+  add(value: number): void {
+    const t = this.#sum + value;
+    if (!Number.isFinite(t)) {
+      this.#sum = t;
+      return;
+    }
+    this.#compensation +=
+      Math.abs(this.#sum) >= Math.abs(value)
+        ? this.#sum - t + value
+        : value - t + this.#sum;
+    this.#sum = t;
+  }
+}
+
+/**
+ * Bucket counts of a `QuantileSketch`, indexed by bucket index.
+ */
+class BucketStore {
+  #counts = new Map<number, number>();
+
+  /**
+   * Buckets with a smaller index have been merged into this bucket.
+   */
+  #floor = -Infinity;
+
+  add(index: number, count: number): void {
+    index = Math.max(index, this.#floor);
+    this.#counts.set(index, (this.#counts.get(index) ?? 0) + count);
+  }
+
+  /**
+   * Merges the buckets with the smallest indexes until at most `maxBuckets`
+   * buckets remain.
+   */
+  collapse(maxBuckets: number): void {
+    if (this.#counts.size <= maxBuckets) return;
+    const indexes = [...this.#counts.keys()].sort((a, b) => a - b);
+    const merged = indexes.slice(0, indexes.length - maxBuckets + 1);
+    let count = 0;
+    for (const index of merged) {
+      count += this.#counts.get(index)!;
+      this.#counts.delete(index);
+    }
+    this.#floor = merged[merged.length - 1];
+    this.#counts.set(this.#floor, count);
+  }
+
+  /**
+   * Returns all `[index, count]` pairs, ordered by index.
+   */
+  entries(): [number, number][] {
+    return [...this.#counts].sort(([a], [b]) => a - b);
+  }
+}
+
+function assertQuantile(q: number) {
+  if (!(q >= 0 && q <= 1)) {
+    throw new Error(`Invalid quantile: ${q}. Must be in range [0, 1].`);
+  }
 }
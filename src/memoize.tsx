@@ -0,0 +1,194 @@
+export interface MemoizeOptions<A extends unknown[]> {
+  /**
+   * Maps the arguments of a call to the parts of its cache key. Defaults to
+   * the arguments themselves.
+   */
+  readonly key?: (...args: A) => readonly unknown[];
+
+  /**
+   * Compares primitive key parts. Defaults to
+   * [SameValueZero](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Equality_comparisons_and_sameness#same-value-zero_equality).
+   * Object key parts are always compared by identity, so that they can be held
+   * weakly. A custom `equals` function requires a linear scan over all cached
+   * primitive key parts at the same argument position.
+   */
+  readonly equals?: (a: unknown, b: unknown) => boolean;
+
+  /**
+   * If `true`, object results are held weakly, and are removed from the cache
+   * when they are garbage collected. Defaults to `false`.
+   */
+  readonly weakResults?: boolean;
+}
+
+export interface Memoized<A extends unknown[], R> {
+  (...args: A): R;
+
+  /**
+   * Removes the cached result for `args`. Returns whether a result was cached.
+   */
+  invalidate(...args: A): boolean;
+
+  /**
+   * Removes all cached results.
+   */
+  clear(): void;
+}
+
+/**
+ * Returns a function that calls `fn` only once per distinct key, and returns
+ * the cached result for repeated calls.
+ *
+ * Object key parts are held weakly, so cache entries for objects that are
+ * garbage collected don't leak. If `fn` returns a `Promise`, concurrent calls
+ * with the same key share the pending promise, and rejected promises are
+ * removed from the cache.
+ */
+export function memoize<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  {
+    key = (...args) => args,
+    equals,
+    weakResults = false,
+  }: MemoizeOptions<A> = {},
+): Memoized<A, R> {
+  let root = new CacheNode(null, undefined);
+  const registry = weakResults
+    ? new FinalizationRegistry<CacheNode>((node) => {
+        if (node.result && !node.deref()) {
+          node.result = null;
+          node.prune();
+        }
+      })
+    : null;
+
+  const memoized = (...args: A) => {
+    let node = root;
+    for (const part of key(...args)) node = node.child(part, equals);
+    const cached = node.deref();
+    if (cached) return cached.value as R;
+
+    let value: R;
+    try {
+      value = fn(...args);
+    } catch (e) {
+      node.prune();
+      throw e;
+    }
+    if (registry && isObject(value)) {
+      node.result = new WeakRef(value);
+      registry.register(value, node);
+    } else {
+      node.result = { value };
+    }
+    if (value instanceof Promise) {
+      value.catch(() => {
+        if (node.deref()?.value !== value) return;
+        node.result = null;
+        node.prune();
+      });
+    }
+    return value;
+  };
+
+  return Object.assign(memoized, {
+    invalidate(...args: A) {
+      let node: CacheNode | undefined = root;
+      for (const part of key(...args)) {
+        node = node.find(part, equals);
+        if (!node) return false;
+      }
+      const cached = !!node.deref();
+      node.result = null;
+      node.prune();
+      return cached;
+    },
+    clear() {
+      root = new CacheNode(null, undefined);
+    },
+  });
+}
+
+/**
+ * A node in the cache trie. Each level of the trie corresponds to one key
+ * part.
+ */
+class CacheNode {
+  constructor(
+    readonly parent: CacheNode | null,
+    readonly keyPart: unknown,
+  ) {}
+
+  objects: WeakMap<object, CacheNode> | null = null;
+  primitives: Map<unknown, CacheNode> | null = null;
+  result: { readonly value: unknown } | WeakRef<object> | null = null;
+
+  /**
+   * Returns the cached result, or `undefined` if no result is cached or the
+   * result was garbage collected.
+   */
+  deref(): { readonly value: unknown } | undefined {
+    if (!(this.result instanceof WeakRef)) return this.result ?? undefined;
+    const value = this.result.deref();
+    return value && { value };
+  }
+
+  /**
+   * Returns the child node for `part`, or `undefined` if it doesn't exist.
+   */
+  find(
+    part: unknown,
+    equals: ((a: unknown, b: unknown) => boolean) | undefined,
+  ): CacheNode | undefined {
+    if (isObject(part)) return this.objects?.get(part);
+    if (!equals || !this.primitives) return this.primitives?.get(part);
+    for (const [keyPart, child] of this.primitives) {
+      if (equals(keyPart, part)) return child;
+    }
+  }
+
+  /**
+   * Returns the child node for `part`, and creates it if it doesn't exist.
+   */
+  child(
+    part: unknown,
+    equals: ((a: unknown, b: unknown) => boolean) | undefined,
+  ): CacheNode {
+    const existing = this.find(part, equals);
+    if (existing) return existing;
+    const child = new CacheNode(this, part);
+    if (isObject(part)) {
+      (this.objects ??= new WeakMap()).set(part, child);
+    } else {
+      (this.primitives ??= new Map()).set(part, child);
+    }
+    return child;
+  }
+
+  /**
+   * Removes this node and its empty ancestors from the trie. Nodes with object
+   * children are never removed, because the size of a `WeakMap` is unknown.
+   */
+  prune(): void {
+    let node: CacheNode = this;
+    while (
+      node.parent &&
+      !node.result &&
+      !node.objects &&
+      !node.primitives?.size
+    ) {
+      if (isObject(node.keyPart)) {
+        node.parent.objects!.delete(node.keyPart);
+      } else {
+        node.parent.primitives!.delete(node.keyPart);
+      }
+      node = node.parent;
+    }
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return (
+    (typeof value === "object" && value !== null) || typeof value === "function"
+  );
+}
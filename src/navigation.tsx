@@ -0,0 +1,323 @@
+import type { Mounts, Parsers, Router } from "./router.js";
+
+/**
+ * The subset of the browser history that `NavigationController` depends on.
+ * URLs are relative to the app root, in the format accepted by
+ * `Router.match()`.
+ */
+export interface NavigationHistory {
+  /**
+   * The current URL, including query string and fragment, or `null` if the
+   * current location is outside of the app.
+   */
+  readonly url: string | null;
+
+  /**
+   * Adds `url` as a new history entry.
+   */
+  push(url: string): void;
+
+  /**
+   * Replaces the current history entry with `url`.
+   */
+  replace(url: string): void;
+
+  back(): void;
+
+  /**
+   * Calls `listener` when the current history entry changes because of a
+   * back/forward navigation, but not because of `push()` or `replace()`.
+   * Returns a function that removes `listener`.
+   */
+  listen(listener: () => void): () => void;
+
+  /**
+   * Converts the absolute URL `href` to an app URL, or returns `null` if
+   * `href` points outside of the app.
+   */
+  resolve(href: string): string | null;
+}
+
+export interface HistoryOptions {
+  /**
+   * The origin of the app, like `https://example.com`.
+   */
+  readonly origin?: string;
+
+  /**
+   * The URL path under which the app is served. Must start and end with `/`.
+   * Defaults to `/`.
+   */
+  readonly base?: string;
+}
+
+/**
+ * Returns a `NavigationHistory` that is backed by `window.history`. `origin`
+ * defaults to `window.location.origin`.
+ */
+export function createBrowserHistory(
+  window: Window = globalThis.window,
+  { origin = window.location.origin, base = "/" }: HistoryOptions = {},
+): NavigationHistory {
+  return {
+    get url() {
+      const { pathname, search, hash } = window.location;
+      return pathname.startsWith(base)
+        ? pathname.substring(base.length) + search + hash
+        : null;
+    },
+    push(url) {
+      window.history.pushState(null, "", base + url);
+    },
+    replace(url) {
+      window.history.replaceState(null, "", base + url);
+    },
+    back() {
+      window.history.back();
+    },
+    listen(listener) {
+      window.addEventListener("popstate", listener);
+      return () => window.removeEventListener("popstate", listener);
+    },
+    resolve(href) {
+      return resolveHref(href, origin, base);
+    },
+  };
+}
+
+/**
+ * A `NavigationHistory` that keeps its entries in memory, for tests and
+ * non-browser environments. `back()`, `forward()` and `go()` notify listeners
+ * synchronously.
+ */
+export class MemoryHistory implements NavigationHistory {
+  constructor(
+    initialUrl = "",
+    { origin = "http://localhost", base = "/" }: HistoryOptions = {},
+  ) {
+    this.#entries = [initialUrl];
+    this.#origin = origin;
+    this.#base = base;
+  }
+
+  #entries: string[];
+  #index = 0;
+  #origin: string;
+  #base: string;
+  #listeners = new Set<() => void>();
+
+  get url(): string {
+    return this.#entries[this.#index];
+  }
+
+  /**
+   * All history entries, oldest first.
+   */
+  get entries(): readonly string[] {
+    return [...this.#entries];
+  }
+
+  /**
+   * The position of the current entry in `entries`.
+   */
+  get index(): number {
+    return this.#index;
+  }
+
+  push(url: string): void {
+    this.#entries.splice(this.#index + 1, Infinity, url);
+    this.#index++;
+  }
+
+  replace(url: string): void {
+    this.#entries[this.#index] = url;
+  }
+
+  back(): void {
+    this.go(-1);
+  }
+
+  forward(): void {
+    this.go(1);
+  }
+
+  /**
+   * Moves `delta` entries through the history. Does nothing if the target
+   * entry doesn't exist.
+   */
+  go(delta: number): void {
+    const index = this.#index + delta;
+    if (delta === 0 || index < 0 || index >= this.#entries.length) return;
+    this.#index = index;
+    for (const listener of [...this.#listeners]) listener();
+  }
+
+  listen(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => this.#listeners.delete(listener);
+  }
+
+  resolve(href: string): string | null {
+    return resolveHref(href, this.#origin, this.#base);
+  }
+}
+
+function resolveHref(href: string, origin: string, base: string) {
+  let url: URL;
+  try {
+    url = new URL(href, origin + base);
+  } catch (e) {
+    if (e instanceof TypeError) return null;
+    throw e;
+  }
+  if (url.origin !== origin || !url.pathname.startsWith(base)) return null;
+  return url.pathname.substring(base.length) + url.search + url.hash;
+}
+
+/**
+ * Binds `router` to `history`. Exposes the `Router.match()` result of the
+ * current history entry, and notifies subscribers when it changes.
+ */
+export class NavigationController<
+  R extends string,
+  M extends Mounts = {},
+  P extends Parsers = {},
+> {
+  constructor(router: Router<R, M, P>, history: NavigationHistory) {
+    this.#router = router;
+    this.#history = history;
+    this.#current = this.#match(history.url);
+    this.#unlisten = history.listen(() => this.#update());
+  }
+
+  #router: Router<R, M, P>;
+  #history: NavigationHistory;
+  #current: Match<R, M, P>;
+  #listeners = new Set<NavigationListener<R, M, P>>();
+  #unlisten: (() => void) | null;
+
+  /**
+   * The `Router.match()` result of the current history entry.
+   */
+  get current(): Match<R, M, P> {
+    return this.#current;
+  }
+
+  /**
+   * The URL of the current history entry, or `null` if it is outside of the
+   * app. In that case, `current` is `null`.
+   */
+  get url(): string | null {
+    return this.#history.url;
+  }
+
+  /**
+   * Calls `listener` whenever the current history entry changes. Returns a
+   * function that removes `listener`.
+   */
+  subscribe(listener: NavigationListener<R, M, P>): () => void {
+    this.#listeners.add(listener);
+    return () => this.#listeners.delete(listener);
+  }
+
+  /**
+   * Adds `url` as a new history entry.
+   */
+  navigate(url: string): void {
+    this.#history.push(url);
+    this.#update();
+  }
+
+  /**
+   * Replaces the current history entry with `url`.
+   */
+  replace(url: string): void {
+    this.#history.replace(url);
+    this.#update();
+  }
+
+  /**
+   * Navigates to the previous history entry. Subscribers are notified when
+   * the history reports the change.
+   */
+  back(): void {
+    this.#history.back();
+  }
+
+  /**
+   * Intercepts clicks on `<a>` elements inside `root` that point to a URL
+   * inside the app which is matched by the router, and navigates to that URL
+   * instead. Ignores clicks with modifier keys or non-primary buttons, and
+   * links with a `target` or `download` attribute. Returns a function that
+   * removes the event listener.
+   */
+  interceptLinks(
+    root: Pick<EventTarget, "addEventListener" | "removeEventListener">,
+  ): () => void {
+    const listener = (e: Event) => {
+      const url = this.#resolveLinkClick(e as MouseEvent);
+      if (url === null) return;
+      e.preventDefault();
+      this.navigate(url);
+    };
+    root.addEventListener("click", listener);
+    return () => root.removeEventListener("click", listener);
+  }
+
+  /**
+   * Removes all subscribers and stops listening to `history`.
+   */
+  dispose(): void {
+    this.#unlisten?.();
+    this.#unlisten = null;
+    this.#listeners.clear();
+  }
+
+  /**
+   * Returns the app URL that the click event `e` navigates to, or `null` if
+   * the click should be handled by the browser.
+   */
+  #resolveLinkClick(e: MouseEvent): string | null {
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey
+    ) {
+      return null;
+    }
+    const target = e.target as Partial<Element> | null;
+    const anchor = target?.closest?.("a[href]") as HTMLAnchorElement | null;
+    if (
+      !anchor ||
+      (anchor.getAttribute("target") ?? "_self") !== "_self" ||
+      anchor.hasAttribute("download")
+    ) {
+      return null;
+    }
+    const url = this.#history.resolve(anchor.href);
+    return url !== null && this.#router.match(url) ? url : null;
+  }
+
+  #match(url: string | null): Match<R, M, P> {
+    return url === null ? null : this.#router.match(url);
+  }
+
+  #update() {
+    const url = this.#history.url;
+    this.#current = this.#match(url);
+    for (const listener of [...this.#listeners]) listener(this.#current, url);
+  }
+}
+
+export type NavigationListener<
+  R extends string,
+  M extends Mounts = {},
+  P extends Parsers = {},
+> = (match: Match<R, M, P>, url: string | null) => void;
+
+type Match<R extends string, M extends Mounts, P extends Parsers> = ReturnType<
+  Router<R, M, P>["match"]
+>;
@@ -1,11 +1,62 @@
+export interface PrimitiveWeakMapOptions<K> {
+  /**
+   * Called after the value of `key` was garbage collected and the entry was
+   * removed from the map. Not called for entries that are removed with
+   * `delete()`, `clear()`, or overwritten with `set()`.
+   */
+  readonly onEvict?: (key: K) => void;
+
+  /**
+   * The number of most recently used values that are strongly referenced by
+   * the map, and therefore can't be garbage collected. `get()` and `set()`
+   * count as use. Defaults to 0.
+   */
+  readonly retain?: number;
+}
+
 /**
  * A WeakMap that supports primitive values like strings or numbers as keys.
  * Inspired by
  * [this MDN example](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Memory_management#weakrefs_and_finalizationregistry).
  */
 export class PrimitiveWeakMap<K extends string | number, V extends object> {
+  constructor({ onEvict, retain = 0 }: PrimitiveWeakMapOptions<K> = {}) {
+    this.#onEvict = onEvict;
+    this.#retain = retain;
+  }
+
   #entries = new Map<K, Entry<V>>();
-  #registry = new FinalizationRegistry<K>((key) => this.delete(key));
+  #registry = new FinalizationRegistry<K>((key) => {
+    this.#entries.delete(key);
+    this.#onEvict?.(key);
+  });
+  #onEvict?: (key: K) => void;
+  #retain: number;
+
+  /**
+   * Strong references to the `#retain` most recently used values, least
+   * recently used first.
+   */
+  #retained = new Map<K, V>();
+
+  /**
+   * The number of entries, including entries whose values were garbage
+   * collected, but not yet removed from the map.
+   */
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  /**
+   * Removes all entries, without calling `onEvict`.
+   */
+  clear(): void {
+    for (const entry of this.#entries.values()) {
+      this.#registry.unregister(entry.token);
+    }
+    this.#entries.clear();
+    this.#retained.clear();
+  }
 
   /**
    * Same as
@@ -14,6 +65,7 @@ export class PrimitiveWeakMap<K extends string | number, V extends object> {
   delete(key: K): boolean {
     const entry = this.#entries.get(key);
     if (entry) this.#registry.unregister(entry.token);
+    this.#retained.delete(key);
     return this.#entries.delete(key);
   }
 
@@ -22,7 +74,9 @@ export class PrimitiveWeakMap<K extends string | number, V extends object> {
    * [WeakMap.get](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/WeakMap/get).
    */
   get(key: K): V | undefined {
-    return this.#entries.get(key)?.value.deref();
+    const value = this.#entries.get(key)?.value.deref();
+    if (value) this.#touch(key, value);
+    return value;
   }
 
   /**
@@ -43,8 +97,51 @@ export class PrimitiveWeakMap<K extends string | number, V extends object> {
     const token = {};
     this.#entries.set(key, { token, value: new WeakRef(value) });
     this.#registry.register(value, key, token);
+    this.#touch(key, value);
     return this;
   }
+
+  /**
+   * Returns the keys of all entries whose values haven't been garbage
+   * collected.
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) yield key;
+  }
+
+  /**
+   * Returns all values that haven't been garbage collected.
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  /**
+   * Returns all entries whose values haven't been garbage collected. Doesn't
+   * count as use for `retain`.
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const [key, entry] of this.#entries) {
+      const value = entry.value.deref();
+      if (value) yield [key, value];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Marks `key` as most recently used.
+   */
+  #touch(key: K, value: V) {
+    if (this.#retain <= 0) return;
+    this.#retained.delete(key);
+    this.#retained.set(key, value);
+    if (this.#retained.size > this.#retain) {
+      this.#retained.delete(this.#retained.keys().next().value);
+    }
+  }
 }
 
 interface Entry<V extends object> {
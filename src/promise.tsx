@@ -14,11 +14,233 @@ export function create<T = void>(): [Promise<T>, Resolve<T>, Reject] {
   return [promise, _resolve!, _reject!];
 }
 
+/**
+ * The time source of all timer-based functions. Can be replaced with a
+ * `ManualClock` to test code deterministically without real timers.
+ */
+export interface Clock {
+  /**
+   * The current time in milliseconds.
+   */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * A `Clock` that uses `Date.now()` and the global `setTimeout()`.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * A `Clock` that only advances when `advance()` is called.
+ */
+export class ManualClock implements Clock {
+  constructor(now = 0) {
+    this.#now = now;
+  }
+
+  #now: number;
+  #nextHandle = 1;
+  #timers = new Map<number, { callback: () => void; time: number }>();
+
+  now(): number {
+    return this.#now;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const handle = this.#nextHandle++;
+    this.#timers.set(handle, { callback, time: this.#now + Math.max(0, ms) });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.#timers.delete(handle as number);
+  }
+
+  /**
+   * The number of timers that haven't fired yet.
+   */
+  get pendingTimers(): number {
+    return this.#timers.size;
+  }
+
+  /**
+   * Advances the time by `ms` milliseconds, and synchronously calls all timers
+   * that become due, in order. Timers that are scheduled by these callbacks
+   * are called too if they become due before the new time.
+   */
+  advance(ms: number): void {
+    const end = this.#now + ms;
+    while (true) {
+      let next: [number, { callback: () => void; time: number }] | undefined;
+      for (const entry of this.#timers) {
+        if (entry[1].time <= end && (!next || entry[1].time < next[1].time)) {
+          next = entry;
+        }
+      }
+      if (!next) break;
+      this.#timers.delete(next[0]);
+      this.#now = next[1].time;
+      next[1].callback();
+    }
+    this.#now = end;
+  }
+}
+
+export interface WaitOptions {
+  /**
+   * If `signal` is aborted, the promise rejects with `signal.reason`.
+   */
+  readonly signal?: AbortSignal;
+  readonly clock?: Clock;
+}
+
 /**
  * Returns a new promise that succeeds after `ms` milliseconds.
  */
-export function wait(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+export function wait(
+  ms: number,
+  { signal, clock = systemClock }: WaitOptions = {},
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clock.clearTimeout(handle);
+      reject(signal!.reason);
+    };
+    const handle = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
 }
+
+/**
+ * Thrown by `withTimeout()` if the promise doesn't settle in time.
+ */
+export class TimeoutError extends Error {
+  constructor(readonly ms: number) {
+    super(`Promise did not settle within ${ms} ms.`);
+  }
+}
+
+/**
+ * Returns a promise that settles like `promise`, or rejects with a
+ * `TimeoutError` if `promise` doesn't settle within `ms` milliseconds. If
+ * `signal` is aborted first, the returned promise rejects with
+ * `signal.reason`.
+ *
+ * `promise` itself is not cancelled.
+ */
+export function withTimeout<T>(
+  promise: PromiseLike<T>,
+  ms: number,
+  { signal, clock = systemClock }: WaitOptions = {},
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const cleanup = () => {
+      clock.clearTimeout(handle);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    const handle = clock.setTimeout(() => {
+      cleanup();
+      reject(new TimeoutError(ms));
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+}
+
+export interface RetryOptions {
+  /**
+   * The maximum number of calls, including the first one. Defaults to 3.
+   */
+  readonly attempts?: number;
+
+  /**
+   * The delay before the second attempt is `initial` ms, and is multiplied by
+   * `factor` for each following attempt, up to `max` ms. Defaults to
+   * `{ initial: 100, factor: 2, max: Infinity }`.
+   */
+  readonly backoff?: {
+    readonly initial?: number;
+    readonly factor?: number;
+    readonly max?: number;
+  };
+
+  /**
+   * A number between 0 and 1. Each delay is reduced by a random amount of up
+   * to `jitter` times the delay. Defaults to 0.
+   */
+  readonly jitter?: number;
+
+  /**
+   * If `signal` is aborted, no further attempts are made, and the promise
+   * rejects with `signal.reason`. `signal` is also passed to `fn`.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Called with the error of each failed attempt, except the last one. If it
+   * returns `false`, the promise rejects with that error immediately.
+   */
+  readonly shouldRetry?: (error: unknown, attempt: number) => boolean;
+  readonly clock?: Clock;
+
+  /**
+   * Returns a random number between 0 and 1 for `jitter`. Defaults to
+   * `Math.random`.
+   */
+  readonly random?: () => number;
+}
+
+/**
+ * Calls `fn` until it succeeds, and waits between attempts with exponential
+ * backoff. `attempt` starts at 1. If all attempts fail, the promise rejects
+ * with the error of the last attempt.
+ */
+export async function retry<T>(
+  fn: (attempt: number, signal?: AbortSignal) => PromiseLike<T> | T,
+  {
+    attempts = 3,
+    backoff: { initial = 100, factor = 2, max = Infinity } = {},
+    jitter = 0,
+    signal,
+    shouldRetry = () => true,
+    clock = systemClock,
+    random = Math.random,
+  }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn(attempt, signal);
+    } catch (e) {
+      signal?.throwIfAborted();
+      if (attempt >= attempts || !shouldRetry(e, attempt)) throw e;
+    }
+    const delay = Math.min(max, initial * factor ** (attempt - 1));
+    await wait(delay * (1 - jitter * random()), { signal, clock });
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @module
+ * Random numbers from seedable or system generators. All functions use
+ * `mathRandom` unless a different generator is passed.
+ * Import like this: `import * as $Random from "@pschiffmann/std/random";`
+ */
+
+/**
+ * A source of uniformly distributed random 32 bit unsigned integers.
+ */
+export interface RandomGenerator {
+  nextUint32(): number;
+}
+
+/**
+ * A generator that is backed by `Math.random()`.
+ */
+export const mathRandom: RandomGenerator = {
+  nextUint32() {
+    return Math.floor(Math.random() * 2 ** 32);
+  },
+};
+
+/**
+ * A cryptographically secure generator that is backed by
+ * `crypto.getRandomValues()`.
+ */
+export const cryptoRandom: RandomGenerator = (() => {
+  const buffer = new Uint32Array(64);
+  let index = buffer.length;
+  return {
+    nextUint32() {
+      if (index === buffer.length) {
+        crypto.getRandomValues(buffer);
+        index = 0;
+      }
+      return buffer[index++];
+    },
+  };
+})();
+
+/**
+ * A seedable generator that implements
+ * [xoshiro128**](https://prng.di.unimi.it/). Generators with the same seed
+ * produce the same sequence of numbers. Not cryptographically secure.
+ */
+export class Xoshiro128 implements RandomGenerator {
+  /**
+   * `seed` is converted to a 32 bit unsigned integer, and expanded to the
+   * 128 bit state with splitmix32.
+   */
+  constructor(seed: number) {
+    let s = seed >>> 0;
+    const next = () => {
+      s = (s + 0x9e3779b9) | 0;
+      let z = s;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      return (z ^ (z >>> 16)) >>> 0;
+    };
+    this.#state = new Uint32Array([next(), next(), next(), next()]);
+  }
+
+  #state: Uint32Array;
+
+  nextUint32(): number {
+    const s = this.#state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  }
+
+  /**
+   * Returns a generator with the same state as this generator.
+   */
+  clone(): Xoshiro128 {
+    const result = new Xoshiro128(0);
+    result.#state.set(this.#state);
+    return result;
+  }
+}
+
+/**
+ * Returns a random integer from range [min, max). Every integer in the range
+ * has the same probability.
+ *
+ * Throws an error if `min` or `max` is not a safe integer, or if the range is
+ * empty.
+ */
+export function int(
+  min: number,
+  max: number,
+  generator: RandomGenerator = mathRandom,
+): number {
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min >= max) {
+    throw new Error(`Invalid range: [${min}, ${max}).`);
+  }
+  const range = max - min;
+  if (range > 2 ** 53) {
+    throw new Error(`Invalid range: [${min}, ${max}). Range is too large.`);
+  }
+  // Rejection sampling: values from the incomplete last interval of `range`
+  // would make the smaller results more likely.
+  if (range <= 2 ** 32) {
+    const limit = 2 ** 32 - (2 ** 32 % range);
+    while (true) {
+      const n = generator.nextUint32();
+      if (n < limit) return min + (n % range);
+    }
+  }
+  const limit = 2 ** 53 - (2 ** 53 % range);
+  while (true) {
+    const n = uint53(generator);
+    if (n < limit) return min + (n % range);
+  }
+}
+
+/**
+ * Returns a random number from range [min, max) with 53 bits of precision.
+ */
+export function float(
+  min = 0,
+  max = 1,
+  generator: RandomGenerator = mathRandom,
+): number {
+  return min + (uint53(generator) / 2 ** 53) * (max - min);
+}
+
+/**
+ * Returns a random number from the normal distribution with `mean` and
+ * `standardDeviation`.
+ */
+export function normal(
+  mean = 0,
+  standardDeviation = 1,
+  generator: RandomGenerator = mathRandom,
+): number {
+  // Box-Muller transform. `1 - float()` is in range (0, 1], so `log()` is
+  // finite.
+  const u = 1 - float(0, 1, generator);
+  const v = float(0, 1, generator);
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  return mean + z * standardDeviation;
+}
+
+/**
+ * Shuffles `self` in place with the Fisher-Yates algorithm, and returns it.
+ */
+export function shuffle<T>(
+  self: T[],
+  generator: RandomGenerator = mathRandom,
+): T[] {
+  for (let i = self.length - 1; i > 0; i--) {
+    const j = int(0, i + 1, generator);
+    [self[i], self[j]] = [self[j], self[i]];
+  }
+  return self;
+}
+
+/**
+ * Returns `count` elements from different indexes of `self`, in random order.
+ *
+ * Throws an error if `self` contains fewer than `count` elements.
+ */
+export function sample<T>(
+  self: readonly T[],
+  count: number,
+  generator: RandomGenerator = mathRandom,
+): T[] {
+  if (!Number.isInteger(count) || count < 0 || count > self.length) {
+    throw new Error(
+      `Invalid count: ${count}. Must be an integer from range ` +
+        `[0, ${self.length}].`,
+    );
+  }
+  // Partial Fisher-Yates shuffle of the indexes that haven't been picked yet.
+  const swapped = new Map<number, number>();
+  const result: T[] = [];
+  for (let i = 0; i < count; i++) {
+    const j = int(i, self.length, generator);
+    result.push(self[swapped.get(j) ?? j]);
+    swapped.set(j, swapped.get(i) ?? i);
+  }
+  return result;
+}
+
+/**
+ * Returns a random element of `items`. The probability of each element is
+ * proportional to the weight at the same index.
+ *
+ * Throws an error if `items` and `weights` have different lengths, if a weight
+ * is negative or not finite, or if all weights are 0.
+ */
+export function weightedChoice<T>(
+  items: readonly T[],
+  weights: readonly number[],
+  generator: RandomGenerator = mathRandom,
+): T {
+  if (items.length !== weights.length) {
+    throw new Error(
+      `Expected ${items.length} weights, got ${weights.length} weights.`,
+    );
+  }
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const weight of weights) {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid weight: ${weight}.`);
+    }
+    cumulative.push((total += weight));
+  }
+  if (total === 0) throw new Error("At least one weight must be positive.");
+
+  const target = float(0, total, generator);
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (cumulative[mid] <= target) low = mid + 1;
+    else high = mid;
+  }
+  // `target` may be rounded up to `total`; never pick a trailing 0 weight.
+  while (weights[low] === 0) low--;
+  return items[low];
+}
+
+function uint53(generator: RandomGenerator): number {
+  const high = generator.nextUint32() >>> 11;
+  const low = generator.nextUint32();
+  return high * 2 ** 32 + low;
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
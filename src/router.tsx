@@ -1,190 +1,1319 @@
+import * as $Array from "./array.js";
+import * as $Map from "./map.js";
 import * as $Object from "./object.js";
 
 /**
  * A simple URL path router that supports path patterns like
  * `thread/:threadId/page/:pageIndex`. Route segments that start with `:` match
  * any single input path segment and capture that value in `RouteMatch.params`.
+ * Param segments that end with `?`, like `:pageIndex?`, are optional; if the
+ * segment is absent from the path, the param value is `undefined`. The last
+ * route segment may be a catch-all like `*path`, which matches one or more path
+ * segments and captures them (joined by `/`) in `RouteMatch.params`.
  *
  * If multiple routes match the same path because of :param segments, the route
  * with an earlier literal match has the higher priority. For example, calling
  * `new Router(["a/:p1/c/d", "a/b/:p2/d"]).match("a/b/c/d")` will return
- * `{ route: "a/b/:p2/d", params: { p2: "c" } }`.
+ * `{ route: "a/b/:p2/d", params: { p2: "c" } }`. Likewise, :param segments
+ * have a higher priority than catch-all segments. A route with optional params
+ * behaves like multiple routes with and without the optional segments; if it
+ * matches a path in multiple ways, earlier optional params are filled first.
+ * A route can contain at most 4 optional segments, including the optional
+ * segments of the prefix patterns it is mounted under.
+ *
+ * Param segments can be constrained like `:id<int>`. A path segment that
+ * doesn't satisfy the constraint doesn't match the route, so matching falls
+ * through to lower-priority routes. Catch-all segments can't be constrained.
+ * Available constraints are:
+ * - `int`: A non-negative integer without leading zeros, parsed as `number`.
+ * - `uuid`: A UUID in hexadecimal 8-4-4-4-12 format.
+ * - A list of literals like `<asc|desc>`, which matches these literals only.
+ * - The name of a parser from `RouterOptions.parsers`.
+ * Constrained params have a lower priority than literal segments, but a higher
+ * priority than unconstrained params. If two routes have the same priority
+ * but different constraints, the route that was passed to the constructor
+ * first has the higher priority.
+ *
+ * `match()` accepts relative URLs that contain a query string and fragment.
+ * Routes can declare the query params they expect with a suffix like
+ * `search{?q,tag*}`. Declared params are exposed in `RouteMatch.search`: Plain
+ * keys like `q` capture the first value of that query param, or `undefined` if
+ * it is absent; keys that end with `*` capture all values as an array. Routes
+ * without a declaration expose all query params in `RouteMatch.search`, as an
+ * array if the key appears multiple times.
+ *
+ * Routers can be nested by mounting a child router under a prefix pattern:
+ * `new Router(["", "about"], { mounts: { "settings/:tab": settingsRouter } })`.
+ * The prefix pattern may contain :param segments, but no catch-all segment or
+ * query declaration. If a path matches a child router route, `match()` returns
+ * the prefix pattern as `RouteMatch.route`, the params of all levels merged
+ * into `RouteMatch.params`, and the prefix and child router matches in
+ * `RouteMatch.chain`. Ambiguities between the routes of all mounted routers
+ * are detected by the outermost Router constructor.
+ *
+ * By default, `match()` percent-decodes path segments, and treats leading,
+ * trailing and duplicate slashes as empty path segments that must be matched
+ * by empty route segments. Literal segments are case sensitive. This can be
+ * changed with `RouterOptions`. The options of mounted routers are ignored,
+ * except for `parsers`.
  *
  * If multiple routes match the exact same path, the Router constructor throws
- * an error.
+ * an error that lists all ambiguous routes.
  */
-export class Router<R extends string> {
-  constructor(routes: readonly R[]) {
-    this.#trie = constructTrie(routes.map((pattern) => new Route(pattern)));
+export class Router<
+  R extends string,
+  M extends Mounts = {},
+  P extends Parsers = {},
+> {
+  constructor(
+    routes: readonly ValidRoute<R>[],
+    {
+      mounts,
+      parsers,
+      decode = true,
+      trailingSlash = "strict",
+      emptySegments = "keep",
+      caseSensitive = true,
+    }: RouterOptions<M, P> = {},
+  ) {
+    this.#options = { decode, trailingSlash, emptySegments, caseSensitive };
+    const constraints = createConstraints(parsers ?? {});
+    this.#patterns = new Map();
+    const variants: Route[] = [];
+    for (const [order, pattern] of routes.entries()) {
+      const parsed = parsePattern(pattern, constraints);
+      this.#patterns.set(pattern, parsed);
+      variants.push(...expandOptionalSegments(pattern, parsed, order));
+    }
+    for (const [prefix, child] of Object.entries(mounts ?? {})) {
+      const parsed = parsePattern(prefix, constraints);
+      if (parsed.query || parsed.segments.some(isRestSegment)) {
+        throw new Error(
+          `Mount prefix "${prefix}" must not contain catch-all segments or ` +
+            `query declarations.`,
+        );
+      }
+      const childVariants = child.#variants;
+      for (const [i, prefixVariant] of expandOptionalSegments(
+        prefix,
+        parsed,
+        variants.length,
+      ).entries()) {
+        for (const [j, childVariant] of childVariants.entries()) {
+          variants.push(
+            Route.concat(
+              prefixVariant,
+              childVariant,
+              i * childVariants.length + j,
+            ),
+          );
+        }
+      }
+    }
+    this.#variants = variants;
+    this.#trie = constructTrie(
+      variants.map((route) => route.normalize(this.#options)),
+    );
   }
 
+  #options: NormalizationOptions;
+  #patterns: Map<string, ParsedPattern>;
+  #variants: readonly Route[];
   #trie: TrieNode;
 
-  match(path: string): Distribute<R> | null {
-    console.log(JSON.stringify(this.#trie, null, 2));
-    const segments = path.split("/");
-    let current = this.#trie;
+  match(url: string): RouterMatch<R, M, P> | null {
+    const { path, search, hash } = splitUrl(url);
+    const segments = this.#splitPath(path);
+    if (!segments) return null;
+    const { node, depth } = this.#walkTrie(segments);
+    if (depth !== segments.length && !node.catchAll) return null;
+
+    for (const route of node.matches) {
+      const chain = route.parseParams(segments);
+      if (!chain) continue;
+      return {
+        route: chain[0].route,
+        params: Object.assign({}, ...chain.map((level) => level.params)),
+        search: parseSearch(search, route.levels.at(-1)!.query),
+        hash,
+        chain,
+      } as unknown as RouterMatch<R, M, P>;
+    }
+    return null;
+  }
+
+  /**
+   * Explains why `match(url)` returns its result, for debugging.
+   */
+  explain(url: string): MatchExplanation {
+    const segments = this.#splitPath(splitUrl(url).path);
+    if (!segments) {
+      return {
+        segments: [],
+        matchedSegments: 0,
+        candidates: [],
+        error: "The path contains malformed percent-encoding.",
+      };
+    }
+    const { node, depth } = this.#walkTrie(segments);
+    // Routes that were expanded from the same patterns are reported as a
+    // single candidate, with the reason of their best matching variant.
+    const candidates = new Map<string, MatchCandidate>();
+    let matched = false;
+    for (const route of Route.sortByPriority(node.routes, depth)) {
+      let reason = route.explain(segments, this.#options);
+      if (reason === null) {
+        reason = matched ? shadowedReason : null;
+        matched = true;
+      }
+      const routes = route.levels.map((level) => level.pattern);
+      const key = JSON.stringify(routes);
+      const candidate = candidates.get(key);
+      if (
+        !candidate ||
+        reason === null ||
+        (reason === shadowedReason && candidate.reason !== null)
+      ) {
+        candidates.set(key, { routes, reason });
+      }
+    }
+    return {
+      segments,
+      // A catch-all node consumes all remaining segments.
+      matchedSegments: node.catchAll ? segments.length : depth,
+      candidates: [...candidates.values()],
+      error: null,
+    };
+  }
+
+  /**
+   * Splits `path` into segments and normalizes them according to the router
+   * options. Returns `null` if `path` contains malformed percent-encoding.
+   */
+  #splitPath(path: string): string[] | null {
+    const segments = normalizeSegments(
+      path.split("/"),
+      (segment) => segment === "",
+      this.#options,
+    );
+    if (!this.#options.decode) return segments;
+    try {
+      return segments.map(decodeURIComponent);
+    } catch (e) {
+      if (e instanceof URIError) return null;
+      throw e;
+    }
+  }
+
+  /**
+   * Follows `segments` through the trie. Returns the last visited node and the
+   * number of consumed segments.
+   */
+  #walkTrie(segments: readonly string[]) {
+    let node = this.#trie;
+    let depth = 0;
     for (const segment of segments) {
-      const child = current.children[segment];
-      if (child) {
-        current = child;
-      } else if (current.children[wildcard]) {
-        current = current.children[wildcard];
-      } else {
-        return null;
+      if (node.catchAll) break;
+      const key = this.#options.caseSensitive ? segment : segment.toLowerCase();
+      const child = node.children.get(key) ?? node.children.get(wildcard);
+      if (!child) break;
+      node = child;
+      depth++;
+    }
+    return { node, depth };
+  }
+
+  /**
+   * Inverse of `match()`: Returns the path that matches `route` and captures
+   * `params`. Param values are percent-encoded (unless the `decode` option is
+   * disabled), so
+   * `router.match(router.build(route, params))` returns `{ route, params }`.
+   * Optional params that are `undefined` are omitted from the path.
+   *
+   * Throws an error if `route` is not part of this router, if a param value
+   * doesn't satisfy its constraint, or if a param value contains a `/`
+   * character. Only catch-all param values may contain `/`. If the `decode`
+   * option is disabled, param values must not contain `?` or `#`. Also throws
+   * if the path doesn't round-trip: if a higher priority route matches it, or
+   * if `match()` would capture different param values, e.g. because a value
+   * moved to a different optional segment, or because empty segments in a
+   * catch-all value are ignored.
+   */
+  build<K extends R>(route: K, ...[params]: BuildArgs<K, P>): string {
+    const { segments } = this.#patterns.get(route) ?? {};
+    if (!segments) {
+      throw new Error(`Route "${route}" is not part of this router.`);
+    }
+    const values: Readonly<Record<string, unknown>> = params ?? {};
+
+    const result: string[] = [];
+    const formatted = new Map<string, string>();
+    for (const segment of segments) {
+      if (typeof segment === "string") {
+        result.push(segment);
+        continue;
+      }
+      const rawValue = values[segment.name];
+      if (rawValue === undefined && segment.type === "optional") continue;
+      if (rawValue === undefined) {
+        throw new Error(`Missing value for param "${segment.name}".`);
+      }
+      const { constraint } = segment;
+      const value = constraint ? constraint.format(rawValue) : rawValue;
+      if (
+        typeof value !== "string" ||
+        (constraint && constraint.parse(value) === undefined)
+      ) {
+        throw new Error(
+          `Value for param "${segment.name}" doesn't satisfy its constraint.`,
+        );
+      }
+      if (!this.#options.decode && /[?#]/.test(value)) {
+        throw new Error(
+          `Value for param "${segment.name}" must not contain "?" or "#".`,
+        );
       }
+      formatted.set(segment.name, value);
+      const encode = this.#options.decode
+        ? encodeURIComponent
+        : (value: string) => value;
+      if (segment.type === "rest") {
+        result.push(...value.split("/").map(encode));
+        continue;
+      }
+      if (value.includes("/")) {
+        throw new Error(
+          `Value for param "${segment.name}" must not contain "/".`,
+        );
+      }
+      result.push(encode(value));
     }
-    if (!current.match) return null;
 
-    return {
-      route: current.match.route,
-      params: $Object.map(current.match.params, (_, index) => segments[index]),
-    } as Distribute<R>;
+    const path = result.join("/");
+    const match = this.match(path);
+    if (match?.route !== route) {
+      throw new Error(
+        `Path "${path}" for route "${route}" matches ` +
+          (match ? `route "${match.route}" instead.` : "no route."),
+      );
+    }
+    const captured: Readonly<Record<string, unknown>> = match.params;
+    for (const segment of segments) {
+      if (typeof segment === "string") continue;
+      const value = captured[segment.name];
+      const actual =
+        value !== undefined && segment.constraint
+          ? segment.constraint.format(value)
+          : value;
+      const expected = formatted.get(segment.name);
+      if (actual !== expected) {
+        throw new Error(
+          `Path "${path}" for route "${route}" captures ` +
+            `${JSON.stringify(actual)} instead of ${JSON.stringify(
+              expected,
+            )} ` +
+            `for param "${segment.name}".`,
+        );
+      }
+    }
+    return path;
   }
 }
 
-export interface RouteMatch<R extends string> {
+export interface RouterOptions<M extends Mounts, P extends Parsers> {
+  /**
+   * Maps prefix patterns to the child routers that are mounted under them.
+   */
+  readonly mounts?: M;
+
+  /**
+   * Named param constraints that can be used in route patterns like
+   * `:slug<slug>`. A regular expression must match the whole path segment.
+   */
+  readonly parsers?: P;
+
+  /**
+   * If `true`, path segments are percent-decoded before matching, and
+   * `Router.build()` percent-encodes param values. Defaults to `true`.
+   */
+  readonly decode?: boolean;
+
+  /**
+   * If `"ignore"`, a single trailing slash is removed from paths and route
+   * patterns before matching, so `a/b/` and `a/b` are equivalent. Defaults to
+   * `"strict"`.
+   */
+  readonly trailingSlash?: "strict" | "ignore";
+
+  /**
+   * If `"ignore"`, all empty segments are removed from paths and route
+   * patterns before matching, so `/a//b/` and `a/b` are equivalent. Defaults
+   * to `"keep"`.
+   */
+  readonly emptySegments?: "keep" | "ignore";
+
+  /**
+   * If `false`, literal segments are matched case-insensitively. Param values
+   * keep their original case. Defaults to `true`.
+   */
+  readonly caseSensitive?: boolean;
+}
+
+type NormalizationOptions = Required<
+  Pick<
+    RouterOptions<{}, {}>,
+    "decode" | "trailingSlash" | "emptySegments" | "caseSensitive"
+  >
+>;
+
+/**
+ * The result of `Router.explain()`.
+ */
+export interface MatchExplanation {
+  /**
+   * The normalized and percent-decoded path segments.
+   */
+  readonly segments: readonly string[];
+
+  /**
+   * The number of leading path segments that match at least one route,
+   * including the segments that are consumed by a catch-all param.
+   */
+  readonly matchedSegments: number;
+
+  /**
+   * The routes that match the first `matchedSegments` path segments, highest
+   * priority first. Routes with optional segments are listed once.
+   */
+  readonly candidates: readonly MatchCandidate[];
+
+  /**
+   * Describes why the path can't be matched at all, or `null`.
+   */
+  readonly error: string | null;
+}
+
+export interface MatchCandidate {
+  /**
+   * The route patterns, starting with the outermost mount prefix.
+   */
+  readonly routes: readonly string[];
+
+  /**
+   * Describes why this route doesn't match the path, or `null` if it is the
+   * route returned by `Router.match()`.
+   */
+  readonly reason: string | null;
+}
+
+const shadowedReason = "Shadowed by a higher priority route.";
+
+/**
+ * Removes the empty `segments` according to `options`. `isEmpty` identifies
+ * empty segments.
+ */
+function normalizeSegments<T>(
+  segments: readonly T[],
+  isEmpty: (segment: T) => boolean,
+  { trailingSlash, emptySegments }: NormalizationOptions,
+): T[] {
+  if (emptySegments === "ignore") {
+    return segments.filter((segment) => !isEmpty(segment));
+  }
+  if (
+    trailingSlash === "ignore" &&
+    segments.length !== 0 &&
+    isEmpty(segments[segments.length - 1])
+  ) {
+    return segments.slice(0, -1);
+  }
+  return [...segments];
+}
+
+export type Mounts = { readonly [prefix: string]: Router<any, any, any> };
+
+export type Parsers = { readonly [name: string]: RegExp | ParamParser<any> };
+
+/**
+ * A custom param constraint. `parse()` converts a percent-decoded path segment
+ * to the param value, or returns `undefined` if the segment is invalid.
+ * `format()` is the inverse of `parse()` and is used by `Router.build()`.
+ */
+export interface ParamParser<T> {
+  parse(segment: string): T | undefined;
+  format(value: T): string;
+}
+
+export interface RouteMatch<R extends string, P extends Parsers = {}> {
   readonly route: R;
-  readonly params: Record<ExtractParams<R>, string>;
+  readonly params: RouteParams<R, P>;
+  readonly search: RouteSearch<R>;
+
+  /**
+   * The URL fragment without the leading `#`, or `""` if the URL has none.
+   */
+  readonly hash: string;
+
+  readonly chain: readonly [RouteLevelMatch<R, P>];
 }
 
-class Route {
-  constructor(pattern: string) {
-    const segments: (string | Wildcard)[] = [];
-    const params: Record<string, number> = {};
-
-    const patternSegments = pattern.split("/").entries();
-    for (const [i, segment] of patternSegments) {
-      if (segment.startsWith(":")) {
-        const param = segment.substring(1);
-        if (params.hasOwnProperty(param)) {
-          throw new Error(
-            `Route "${pattern}" contains duplicate param name "${param}".`,
-          );
-        }
-        segments.push(wildcard);
-        params[param] = i;
+/**
+ * The result of `Router.match()` for a path that matches a route of a child
+ * router mounted under prefix pattern `R`. `C` is the result of the child
+ * router `match()`.
+ */
+export interface NestedRouteMatch<
+  R extends string,
+  C extends AnyRouteMatch,
+  P extends Parsers = {},
+> {
+  readonly route: R;
+  readonly params: RouteParams<R, P> & C["params"];
+  readonly search: C["search"];
+  readonly hash: string;
+  readonly chain: readonly [RouteLevelMatch<R, P>, ...C["chain"]];
+}
+
+/**
+ * A single level of `RouteMatch.chain`.
+ */
+export interface RouteLevelMatch<R extends string, P extends Parsers = {}> {
+  readonly route: R;
+  readonly params: RouteParams<R, P>;
+}
+
+type AnyRouteMatch =
+  | RouteMatch<string, any>
+  | NestedRouteMatch<string, any, any>;
+
+export type RouteParams<R extends string, P extends Parsers = {}> = {
+  [S in ParamSegments<R> as ParamName<S>]: S extends `${string}?`
+    ? ParamValue<S, P> | undefined
+    : ParamValue<S, P>;
+};
+
+export type RouteSearch<R extends string> = [QueryDeclaration<R>] extends [
+  never,
+]
+  ? { readonly [key: string]: string | string[] }
+  : {
+      [K in SplitList<QueryDeclaration<R>> as K extends `${infer Key}*`
+        ? Key
+        : K]: K extends `${string}*` ? string[] : string | undefined;
+    };
+
+/**
+ * Splits `url` into the path, the query string without the leading `?`, and
+ * the fragment without the leading `#`.
+ */
+function splitUrl(url: string) {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.substring(hashIndex + 1);
+  const rest = hashIndex === -1 ? url : url.substring(0, hashIndex);
+  const searchIndex = rest.indexOf("?");
+  return searchIndex === -1
+    ? { path: rest, search: "", hash }
+    : {
+        path: rest.substring(0, searchIndex),
+        search: rest.substring(searchIndex + 1),
+        hash,
+      };
+}
+
+/**
+ * Parses `search` into an object. If `query` is `null`, includes all keys from
+ * `search`, else only the declared keys.
+ */
+function parseSearch(
+  search: string,
+  query: readonly QueryParam[] | null,
+): Record<string, string | string[] | undefined> {
+  const searchParams = new URLSearchParams(search);
+  const result: Record<string, string | string[] | undefined> = {};
+  if (query) {
+    for (const { name, multiple } of query) {
+      result[name] = multiple
+        ? searchParams.getAll(name)
+        : searchParams.get(name) ?? undefined;
+    }
+  } else {
+    const values = new Map<string, string[]>();
+    searchParams.forEach((value, name) => {
+      const previous = values.get(name);
+      if (previous) {
+        previous.push(value);
       } else {
-        segments.push(segment);
+        values.set(name, [value]);
+      }
+    });
+    for (const [name, [first, ...rest]] of values) {
+      result[name] = rest.length === 0 ? first : [first, ...rest];
+    }
+  }
+  return result;
+}
+
+interface ParsedPattern {
+  readonly segments: readonly PatternSegment[];
+
+  /**
+   * The declared query params, or `null` if the pattern has no declaration.
+   */
+  readonly query: readonly QueryParam[] | null;
+}
+
+interface QueryParam {
+  readonly name: string;
+
+  /**
+   * If `true`, captures all values of this query param as an array.
+   */
+  readonly multiple: boolean;
+}
+
+/**
+ * A route pattern segment. Strings are literal segments.
+ */
+type PatternSegment =
+  | string
+  | {
+      readonly type: "required" | "optional" | "rest";
+      readonly name: string;
+      readonly constraint: Constraint | null;
+    };
+
+/**
+ * A param segment constraint. `parse()` returns `undefined` if `segment`
+ * doesn't satisfy the constraint.
+ */
+interface Constraint {
+  readonly name: string;
+  parse(segment: string): unknown;
+  format(value: unknown): unknown;
+}
+
+const builtinConstraints: ReadonlyMap<string, Constraint> = new Map(
+  [
+    {
+      name: "int",
+      parse: (segment: string) =>
+        /^(0|[1-9]\d*)$/.test(segment) &&
+        Number(segment) <= Number.MAX_SAFE_INTEGER
+          ? Number(segment)
+          : undefined,
+      format: (value: unknown) =>
+        typeof value === "number" ? String(value) : value,
+    },
+    {
+      name: "uuid",
+      parse: (segment: string) =>
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+          segment,
+        )
+          ? segment
+          : undefined,
+      format: (value: unknown) => value,
+    },
+  ].map((constraint) => [constraint.name, constraint]),
+);
+
+/**
+ * Cache for literal list constraints, so that equal lists share the same
+ * `Constraint` object, even across routers.
+ */
+const literalConstraints = new Map<string, Constraint>();
+
+/**
+ * Returns a function that resolves the constraint names in route patterns to
+ * `Constraint` objects.
+ */
+function createConstraints(parsers: Parsers) {
+  const custom = new Map<string, Constraint>();
+  for (const [name, parser] of Object.entries(parsers)) {
+    if (builtinConstraints.has(name)) {
+      throw new Error(`Parser name "${name}" is reserved.`);
+    }
+    custom.set(
+      name,
+      parser instanceof RegExp
+        ? createRegExpConstraint(name, parser)
+        : { name, parse: parser.parse, format: parser.format },
+    );
+  }
+
+  return (name: string): Constraint => {
+    const constraint = builtinConstraints.get(name) ?? custom.get(name);
+    if (constraint) return constraint;
+    return $Map.putIfAbsent(literalConstraints, name, () => {
+      const literals = name.split("|");
+      return {
+        name,
+        parse: (segment) => (literals.includes(segment) ? segment : undefined),
+        format: (value) => value,
+      };
+    });
+  };
+}
+
+function createRegExpConstraint(name: string, pattern: RegExp): Constraint {
+  const anchored = new RegExp(
+    `^(?:${pattern.source})$`,
+    pattern.flags.replace(/[gy]/g, ""),
+  );
+  return {
+    name,
+    parse: (segment) => (anchored.test(segment) ? segment : undefined),
+    format: (value) => value,
+  };
+}
+
+function isRestSegment(segment: PatternSegment) {
+  return typeof segment !== "string" && segment.type === "rest";
+}
+
+function parsePattern(
+  pattern: string,
+  constraints: (name: string) => Constraint,
+): ParsedPattern {
+  const queryMatch = pattern.match(queryDeclarationPattern);
+  const query = queryMatch
+    ? queryMatch[1]
+        .split(",")
+        .map(
+          (key): QueryParam =>
+            key.endsWith("*")
+              ? { name: key.slice(0, -1), multiple: true }
+              : { name: key, multiple: false },
+        )
+    : null;
+  const path = queryMatch ? pattern.substring(0, queryMatch.index) : pattern;
+
+  const segments = path.split("/");
+  const params = new Set<string>();
+  const parsed = segments.map((segment, i) => parseSegment(segment, i));
+  assertOptionalSegmentLimit(`"${pattern}"`, countOptionalSegments(parsed));
+  return { segments: parsed, query };
+
+  function parseSegment(segment: string, i: number): PatternSegment {
+    let result: PatternSegment;
+    if (segment.startsWith(":")) {
+      const optional = segment.endsWith("?");
+      const [, name, constraint] = segment
+        .slice(1, optional ? -1 : undefined)
+        .match(paramSegmentPattern)!;
+      result = {
+        type: optional ? "optional" : "required",
+        name,
+        constraint: constraint === undefined ? null : constraints(constraint),
+      };
+    } else if (segment.startsWith("*")) {
+      if (i !== segments.length - 1) {
+        throw new Error(
+          `Route "${pattern}" contains catch-all segment "${segment}" that ` +
+            `is not the last segment.`,
+        );
+      }
+      if (paramSegmentPattern.exec(segment)![2] !== undefined) {
+        throw new Error(
+          `Route "${pattern}" contains catch-all segment "${segment}" with a ` +
+            `constraint. Only :param segments can be constrained.`,
+        );
       }
+      result = { type: "rest", name: segment.substring(1), constraint: null };
+    } else {
+      return segment;
     }
 
-    this.pattern = pattern;
-    this.segments = segments;
-    this.params = params;
+    if (params.has(result.name)) {
+      throw new Error(
+        `Route "${pattern}" contains duplicate param name "${result.name}".`,
+      );
+    }
+    params.add(result.name);
+    return result;
   }
+}
+
+/**
+ * Each optional segment doubles the number of `Route`s that are created from a
+ * pattern, so the number of optional segments per route is limited.
+ */
+const maxOptionalSegments = 4;
+
+function countOptionalSegments(segments: readonly PatternSegment[]) {
+  return segments.filter(
+    (segment) => typeof segment !== "string" && segment.type === "optional",
+  ).length;
+}
+
+/**
+ * Throws an error if a route with `count` optional segments exceeds
+ * `maxOptionalSegments`. `description` identifies the route.
+ */
+function assertOptionalSegmentLimit(description: string, count: number) {
+  if (count > maxOptionalSegments) {
+    throw new Error(
+      `Route ${description} contains ${count} optional segments, but at ` +
+        `most ${maxOptionalSegments} are allowed.`,
+    );
+  }
+}
+
+const queryDeclarationPattern = /\{\?([^{}]*)\}$/;
+const paramSegmentPattern = /^(.*?)(?:<(.*)>)?$/;
+
+/**
+ * Returns one `Route` for each combination of present and absent optional
+ * segments in `pattern`. Combinations where earlier optional segments are
+ * present come first.
+ */
+function expandOptionalSegments(
+  pattern: string,
+  { segments, query }: ParsedPattern,
+  order: number,
+): Route[] {
+  let partials: {
+    segments: Matcher[];
+    params: Record<string, number | undefined>;
+  }[] = [{ segments: [], params: {} }];
+  let rest: string | null = null;
+
+  for (const segment of segments) {
+    if (typeof segment === "string") {
+      for (const partial of partials) partial.segments.push(segment);
+    } else if (segment.type === "optional") {
+      partials = partials.flatMap(({ segments, params }) => [
+        {
+          segments: [...segments, segment.constraint ?? wildcard],
+          params: { ...params, [segment.name]: segments.length },
+        },
+        { segments, params: { ...params, [segment.name]: undefined } },
+      ]);
+    } else {
+      for (const partial of partials) {
+        partial.params[segment.name] = partial.segments.length;
+        partial.segments.push(
+          segment.type === "rest"
+            ? restWildcard
+            : segment.constraint ?? wildcard,
+        );
+      }
+      if (segment.type === "rest") rest = segment.name;
+    }
+  }
+
+  const optionalSegments = countOptionalSegments(segments);
+  return partials.map(
+    ({ segments, params }, variant) =>
+      new Route(
+        [{ pattern, params, query, optionalSegments }],
+        order,
+        variant,
+        segments,
+        rest,
+      ),
+  );
+}
+
+/**
+ * A route pattern without optional segments, optionally prefixed by the
+ * patterns it is mounted under.
+ */
+class Route {
+  constructor(
+    /**
+     * The route patterns, starting with the outermost mount prefix.
+     */
+    readonly levels: readonly RouteLevel[],
+
+    /**
+     * The position of the pattern in the `Router` constructor arguments.
+     * Breaks ties between routes with different constraints.
+     */
+    readonly order: number,
+
+    /**
+     * Distinguishes the routes that were created from the same patterns by
+     * `expandOptionalSegments()`. Lower values have a higher priority.
+     */
+    readonly variant: number,
+
+    readonly segments: readonly Matcher[],
+
+    /**
+     * The name of the catch-all param, or `null` if this route has none.
+     */
+    readonly rest: string | null,
+  ) {}
 
   /**
-   * The unaltered route pattern that was passed to `Router`.
+   * The route patterns in a human-readable format, for error messages.
    */
-  readonly pattern: string;
+  get description(): string {
+    return this.levels.map((level) => `"${level.pattern}"`).join(" + ");
+  }
 
   /**
-   * A list of path segment matchers. Strings match themselves, `wildcard`
-   * matches any single path segment.
+   * The number of optional segments in all levels.
    */
-  readonly segments: readonly (string | Wildcard)[];
+  get optionalSegments(): number {
+    return this.levels.reduce(
+      (count, level) => count + level.optionalSegments,
+      0,
+    );
+  }
 
   /**
-   * A map from param name to path segment index that gets captured and exposed.
+   * Returns the segment matcher that is applied to the path segment at `index`.
+   * Catch-all routes apply `restWildcard` to all segments after the last one.
    */
-  readonly params: Readonly<Record<string, number>> = {};
+  segmentAt(index: number): Matcher | undefined {
+    return this.rest !== null && index >= this.segments.length
+      ? restWildcard
+      : this.segments[index];
+  }
 
   /**
-   * Returns the highest priority route from `routes`, or `null` if `routes` is
-   * empty. Throws an error if two routes have the same priority. All routes
-   * must have the same number of segments.
+   * Returns `true` if this route matches paths with exactly `length` segments.
    */
-  static findHighestPriorityRoute(routes: readonly Route[]): Route | null {
-    let best: Route | null = null;
-    compareRoutes: for (const route of routes) {
-      if (!best) {
-        best = route;
-        continue;
+  matchesLength(length: number): boolean {
+    return this.rest !== null
+      ? length >= this.segments.length
+      : length === this.segments.length;
+  }
+
+  /**
+   * Returns `true` if `this` and `other` were created from the same patterns.
+   */
+  hasSamePatterns(other: Route): boolean {
+    return $Array.equals(
+      this.levels,
+      other.levels,
+      (a, b) => a.pattern === b.pattern,
+    );
+  }
+
+  /**
+   * Parses the params of all levels from the normalized path `segments`.
+   * Returns `null` if a segment doesn't satisfy its constraint.
+   */
+  parseParams(segments: readonly string[]): RouteLevelMatch<string>[] | null {
+    const chain: RouteLevelMatch<string>[] = [];
+    for (const level of this.levels) {
+      const params: Record<string, unknown> = {};
+      for (const [name, index] of Object.entries(level.params)) {
+        if (index === undefined) {
+          params[name] = undefined;
+        } else if (name === this.rest) {
+          params[name] = segments.slice(index).join("/");
+        } else {
+          const matcher = this.segments[index];
+          const segment = segments[index];
+          const value =
+            typeof matcher === "object" ? matcher.parse(segment) : segment;
+          if (value === undefined) return null;
+          params[name] = value;
+        }
       }
-      for (let i = 0; i < best.segments.length; i++) {
-        const bestSegment = best.segments[i];
-        const routeSegment = route.segments[i];
-        if (bestSegment === wildcard && routeSegment !== wildcard) {
-          best = route;
-          continue compareRoutes;
+      chain.push({ route: level.pattern, params });
+    }
+    return chain;
+  }
+
+  /**
+   * Returns a description why this route doesn't match the normalized path
+   * `segments`, or `null` if it matches.
+   */
+  explain(
+    segments: readonly string[],
+    { caseSensitive }: NormalizationOptions,
+  ): string | null {
+    if (!this.matchesLength(segments.length)) {
+      return (
+        `Expected ${this.rest !== null ? "at least " : ""}` +
+        `${this.segments.length} segments, got ${segments.length}.`
+      );
+    }
+    for (const [i, matcher] of this.segments.entries()) {
+      const segment = segments[i];
+      if (typeof matcher === "string") {
+        const key = caseSensitive ? segment : segment.toLowerCase();
+        if (key !== matcher) {
+          return `Segment ${i + 1} "${segment}" doesn't match "${matcher}".`;
         }
-        if (bestSegment !== wildcard && routeSegment === wildcard) {
-          continue compareRoutes;
+      } else if (typeof matcher === "object") {
+        if (matcher.parse(segment) === undefined) {
+          return (
+            `Segment ${i + 1} "${segment}" doesn't satisfy constraint ` +
+            `"${matcher.name}".`
+          );
         }
       }
-      throw new Error(
-        `Routes "${best.pattern}" and "${route.pattern}" match the same path.`,
-      );
     }
-    return best;
+    return null;
+  }
+
+  /**
+   * Returns a copy of this route with empty literal segments removed and
+   * literal segments converted to lower case, according to `options`.
+   */
+  normalize(options: NormalizationOptions): Route {
+    const indices = normalizeSegments(
+      [...this.segments.keys()],
+      (i) => this.segments[i] === "",
+      options,
+    );
+    const newIndices = new Map(indices.map((index, i) => [index, i]));
+    return new Route(
+      this.levels.map((level) => ({
+        ...level,
+        params: $Object.map(level.params, (_, index) =>
+          index === undefined ? undefined : newIndices.get(index),
+        ),
+      })),
+      this.order,
+      this.variant,
+      indices.map((index) => {
+        const segment = this.segments[index];
+        return typeof segment === "string" && !options.caseSensitive
+          ? segment.toLowerCase()
+          : segment;
+      }),
+      this.rest,
+    );
+  }
+
+  /**
+   * Returns a negative number if `a` has a higher priority than `b`, a
+   * positive number if `b` has a higher priority than `a`, or `0` if `a` and
+   * `b` have the same priority. Both routes must match paths with `length`
+   * segments.
+   */
+  static comparePriority(a: Route, b: Route, length: number): number {
+    let differentConstraints = false;
+    for (let i = 0; i < length; i++) {
+      const aSegment = a.segmentAt(i);
+      const bSegment = b.segmentAt(i);
+      const rankDiff = rankSegment(bSegment) - rankSegment(aSegment);
+      if (rankDiff !== 0) return rankDiff;
+      if (aSegment !== bSegment && typeof aSegment === "object") {
+        differentConstraints = true;
+      }
+    }
+    if (differentConstraints && a.order !== b.order) return a.order - b.order;
+    return a.hasSamePatterns(b) ? a.variant - b.variant : 0;
+  }
+
+  /**
+   * Returns `routes` sorted by priority, highest first. Calls `onAmbiguity`
+   * for each pair of routes with the same priority. All routes must match
+   * paths with the first `length` segments.
+   */
+  static sortByPriority(
+    routes: readonly Route[],
+    length: number,
+    onAmbiguity?: (a: Route, b: Route) => void,
+  ): Route[] {
+    const sorted = [...routes].sort((a, b) =>
+      Route.comparePriority(a, b, length),
+    );
+    if (!onAmbiguity) return sorted;
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (Route.comparePriority(sorted[i], sorted[j], length) !== 0) break;
+        onAmbiguity(sorted[i], sorted[j]);
+      }
+    }
+    return sorted;
+  }
+
+  /**
+   * Returns a route that matches `prefix` followed by `child`. Throws an error
+   * if both routes contain a param with the same name.
+   */
+  static concat(prefix: Route, child: Route, variant: number): Route {
+    assertOptionalSegmentLimit(
+      `${prefix.description} + ${child.description}`,
+      prefix.optionalSegments + child.optionalSegments,
+    );
+    const offset = prefix.segments.length;
+    const prefixParams = new Set(
+      prefix.levels.flatMap((level) => Object.keys(level.params)),
+    );
+    const childLevels = child.levels.map((level) => {
+      for (const name of Object.keys(level.params)) {
+        if (prefixParams.has(name)) {
+          throw new Error(
+            `Route ${prefix.description} + ${child.description} contains ` +
+              `duplicate param name "${name}".`,
+          );
+        }
+      }
+      return {
+        ...level,
+        params: $Object.map(level.params, (_, index) =>
+          index === undefined ? undefined : index + offset,
+        ),
+      };
+    });
+    return new Route(
+      [...prefix.levels, ...childLevels],
+      prefix.order,
+      variant,
+      [...prefix.segments, ...child.segments],
+      child.rest,
+    );
   }
 }
 
+interface RouteLevel {
+  /**
+   * The unaltered route pattern that was passed to `Router`.
+   */
+  readonly pattern: string;
+
+  /**
+   * A map from param name to path segment index that gets captured and
+   * exposed. Absent optional params map to `undefined`.
+   */
+  readonly params: Readonly<Record<string, number | undefined>>;
+
+  readonly query: readonly QueryParam[] | null;
+
+  /**
+   * The number of optional segments in `pattern`.
+   */
+  readonly optionalSegments: number;
+}
+
 const wildcard = Symbol("*");
 type Wildcard = typeof wildcard;
 
+const restWildcard = Symbol("**");
+type Rest = typeof restWildcard;
+
+/**
+ * A path segment matcher. Strings match themselves, `wildcard` matches any
+ * single path segment, constraints match single path segments that satisfy
+ * them, `restWildcard` matches all remaining path segments.
+ */
+type Matcher = string | Wildcard | Constraint | Rest;
+
+/**
+ * Literal segments have the highest priority, then constraints, then
+ * wildcards, then catch-all wildcards.
+ */
+function rankSegment(segment: Matcher | undefined) {
+  return segment === restWildcard
+    ? 0
+    : segment === wildcard
+    ? 1
+    : typeof segment === "object"
+    ? 2
+    : 3;
+}
+
+/**
+ * Throws an error that lists all pairs of ambiguous routes, if there are any.
+ */
 function constructTrie(routes: readonly Route[]): TrieNode {
-  const root: TrieNode = { match: null, children: {} };
-  const queue = [{ path: [] as (string | Wildcard)[], routes, node: root }];
+  const ambiguities = new Set<string>();
+  const root = createTrieNode(routes);
+  const queue = [{ depth: 0, node: root }];
 
-  for (const { path, routes, node } of queue) {
-    const i = path.length;
+  for (const { depth: i, node } of queue) {
+    const { routes } = node;
     const exactMatch: Route[] = [];
-    const prefixMatch: Route[] = [];
     const nextSegments = new Set<string | Wildcard>();
     for (const route of routes) {
-      if (route.segments.length === i) {
-        exactMatch.push(route);
-      } else {
-        prefixMatch.push(route);
-        nextSegments.add(route.segments[i]);
+      if (route.matchesLength(i)) exactMatch.push(route);
+      const segment = route.segmentAt(i);
+      if (typeof segment === "string") {
+        nextSegments.add(segment);
+      } else if (segment !== undefined) {
+        nextSegments.add(wildcard);
       }
     }
 
-    const bestMatch = Route.findHighestPriorityRoute(exactMatch);
-    if (bestMatch) {
-      node.match = { route: bestMatch.pattern, params: bestMatch.params };
+    node.matches = Route.sortByPriority(exactMatch, i, (a, b) => {
+      ambiguities.add(
+        `Routes ${a.description} and ${b.description} match the same path.`,
+      );
+    });
+    // If only catch-all routes remain that have already consumed at least one
+    // segment, then all longer paths match the same route as this node.
+    if (
+      routes.every((route) => route.rest !== null && route.segments.length <= i)
+    ) {
+      node.catchAll = node.matches.length !== 0;
+      if (node.catchAll) continue;
     }
 
     for (const segment of nextSegments) {
-      const nextNode: TrieNode = { match: null, children: {} };
-      node.children[segment] = nextNode;
-      queue.push({
-        path: [...path, segment],
-        routes: routes.filter(
-          (route) =>
-            route.segments[i] === segment || route.segments[i] === wildcard,
-        ),
-        node: nextNode,
-      });
+      const nextNode = createTrieNode(
+        routes.filter((route) => {
+          const routeSegment = route.segmentAt(i);
+          return (
+            routeSegment === segment ||
+            (routeSegment !== undefined && typeof routeSegment !== "string")
+          );
+        }),
+      );
+      node.children.set(segment, nextNode);
+      queue.push({ depth: i + 1, node: nextNode });
     }
   }
 
+  if (ambiguities.size !== 0) throw new Error([...ambiguities].join("\n"));
   return root;
 }
 
+function createTrieNode(routes: readonly Route[]): TrieNode {
+  return { routes, matches: [], catchAll: false, children: new Map() };
+}
+
 interface TrieNode {
-  match: {
-    route: string;
-    params: Record<string, number>;
-  } | null;
-
-  children: {
-    [segment: string]: TrieNode;
-    [wildcard]?: TrieNode;
-  };
+  /**
+   * The routes that match the path prefix that leads to this node.
+   */
+  readonly routes: readonly Route[];
+
+  /**
+   * The routes that match paths ending at this node, highest priority first.
+   */
+  matches: readonly Route[];
+
+  /**
+   * If `true`, this node matches all paths that continue past it.
+   */
+  catchAll: boolean;
+
+  children: Map<string | Wildcard, TrieNode>;
 }
 
 // https://www.typescriptlang.org/docs/handbook/release-notes/typescript-2-8.html#distributive-conditional-types
-type Distribute<R> = R extends string ? RouteMatch<R> : never;
+type Distribute<R, P extends Parsers> = R extends string
+  ? RouteMatch<R, P>
+  : never;
 
-type ExtractParams<R extends string> = R extends `/${infer Tail}`
-  ? ExtractParams<Tail>
-  : R extends `${infer Head}/${infer Tail}`
-  ? ExtractSingleParam<Head> | ExtractParams<Tail>
-  : ExtractSingleParam<R>;
+type DistributeNested<
+  R extends string,
+  C,
+  P extends Parsers,
+> = C extends AnyRouteMatch ? NestedRouteMatch<R, C, P> : never;
+
+/**
+ * The result of `Router<R, M, P>.match()`.
+ */
+type RouterMatch<R extends string, M extends Mounts, P extends Parsers> =
+  | Distribute<R, P>
+  | {
+      [K in keyof M & string]: M[K] extends Router<infer C, infer N, infer Q>
+        ? DistributeNested<K, RouterMatch<C, N, Q>, P>
+        : never;
+    }[keyof M & string];
+
+/**
+ * The `params` argument of `Router.build()`. Optional params may be omitted.
+ */
+type BuildParams<R extends string, P extends Parsers> = {
+  [S in ParamSegments<R> as S extends `${string}?`
+    ? never
+    : ParamName<S>]: ParamValue<S, P>;
+} & {
+  [S in ParamSegments<R> as S extends `${string}?`
+    ? ParamName<S>
+    : never]?: ParamValue<S, P>;
+};
+
+/**
+ * The `params` argument of `Router.build()` may be omitted for routes without
+ * required params.
+ */
+type BuildArgs<R extends string, P extends Parsers> = {} extends BuildParams<
+  R,
+  P
+>
+  ? [params?: BuildParams<R, P>]
+  : [params: BuildParams<R, P>];
+
+/**
+ * Returns a union of all param segments of route pattern `R`.
+ */
+type ParamSegments<R extends string> = Extract<
+  SplitSegments<PathPattern<R>>,
+  `:${string}` | `*${string}`
+>;
+
+/**
+ * Resolves to `never` if route pattern `R` contains a catch-all segment with a
+ * constraint, so that the Router constructor rejects it.
+ */
+type ValidRoute<R extends string> = [
+  Extract<ParamSegments<R>, `*${string}<${string}>`>,
+] extends [never]
+  ? R
+  : never;
 
-type ExtractSingleParam<R extends string> = R extends `:${infer Param}`
-  ? Param
+/**
+ * Returns the param name of param segment `S`.
+ */
+type ParamName<S extends string> = S extends `${":" | "*"}${infer Tail}`
+  ? Tail extends `${infer Name}<${string}>${"" | "?"}`
+    ? Name
+    : Tail extends `${infer Name}?`
+    ? Name
+    : Tail
   : never;
+
+/**
+ * Returns the param value type of param segment `S`, ignoring optionality.
+ */
+type ParamValue<
+  S extends string,
+  P extends Parsers,
+> = S extends `${string}<${infer C}>${"" | "?"}`
+  ? ConstraintValue<C, P>
+  : string;
+
+type ConstraintValue<C extends string, P extends Parsers> = C extends "int"
+  ? number
+  : C extends "uuid"
+  ? string
+  : C extends keyof P
+  ? P[C] extends ParamParser<infer T>
+    ? T
+    : string
+  : SplitLiterals<C>;
+
+type SplitLiterals<L extends string> = L extends `${infer Head}|${infer Tail}`
+  ? Head | SplitLiterals<Tail>
+  : L;
+
+/**
+ * Returns route pattern `R` without its query declaration.
+ */
+type PathPattern<R extends string> = R extends `${infer Path}{?${string}}`
+  ? Path
+  : R;
+
+/**
+ * Returns the query declaration of route pattern `R` without the surrounding
+ * `{?` and `}`, or `never` if `R` has none.
+ */
+type QueryDeclaration<R extends string> = R extends `${string}{?${infer Query}}`
+  ? Query
+  : never;
+
+type SplitList<L extends string> = L extends `${infer Head},${infer Tail}`
+  ? Head | SplitList<Tail>
+  : L;
+
+/**
+ * Returns a union of all segments of route pattern `R`.
+ */
+type SplitSegments<R extends string> = R extends `/${infer Tail}`
+  ? SplitSegments<Tail>
+  : R extends `${infer Head}/${infer Tail}`
+  ? Head | SplitSegments<Tail>
+  : R;
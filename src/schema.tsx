@@ -0,0 +1,365 @@
+/**
+ * @module
+ * Runtime validation of unknown values, with inferred static types.
+ * Import like this: `import * as $Schema from "@pschiffmann/std/schema";`
+ */
+
+import type { ObjectMap } from "./object-map.js";
+import * as $Object from "./object.js";
+import type { ParamParser } from "./router.js";
+
+export interface Issue {
+  /**
+   * [JSON pointer](https://www.rfc-editor.org/rfc/rfc6901) to the invalid
+   * value, or `""` for the root value.
+   */
+  readonly path: string;
+  readonly message: string;
+}
+
+export type ParseResult<T> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly issues: readonly Issue[] };
+
+/**
+ * Thrown by `Schema.assert()`. Contains all issues of the parsed value.
+ */
+export class SchemaError extends Error {
+  constructor(readonly issues: readonly Issue[]) {
+    super(
+      issues
+        .map(({ path, message }) => `${path || "(root)"}: ${message}`)
+        .join("\n"),
+    );
+  }
+}
+
+/**
+ * The static type of the values that are accepted by schema `S`.
+ */
+export type Infer<S extends Schema<any>> = S extends Schema<infer T>
+  ? T
+  : never;
+
+/**
+ * Returned by `Check` functions if the value is invalid. The check function
+ * must have added at least one issue in that case.
+ */
+const invalid = Symbol("invalid");
+
+type Check<T> = (
+  value: unknown,
+  path: string,
+  issues: Issue[],
+) => T | typeof invalid;
+
+/**
+ * Validates unknown values, and infers their static type `T`. Create schemas
+ * with the functions of this module.
+ */
+class Schema<T> {
+  constructor(check: Check<T>) {
+    this.#check = check;
+  }
+
+  #check: Check<T>;
+
+  /**
+   * Validates `value`. Collects all issues instead of stopping at the first
+   * one. The result value may differ from `value`: object schemas drop
+   * undeclared properties, and `transform()` schemas replace the value.
+   */
+  parse(value: unknown): ParseResult<T> {
+    const issues: Issue[] = [];
+    const result = this.#check(value, "", issues);
+    return result === invalid
+      ? { ok: false, issues }
+      : { ok: true, value: result };
+  }
+
+  /**
+   * Returns the parsed value, or throws a `SchemaError`.
+   */
+  assert(value: unknown): T {
+    const result = this.parse(value);
+    if (!result.ok) throw new SchemaError(result.issues);
+    return result.value;
+  }
+
+  /**
+   * Returns a schema that also accepts `undefined`. In `object()` schemas,
+   * properties with optional schemas may be missing.
+   */
+  optional(): Schema<T | undefined> {
+    return optional(this);
+  }
+
+  /**
+   * Returns a schema that also requires `predicate` to return `true` for the
+   * parsed value.
+   */
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema((value, path, issues) => {
+      const result = this.#check(value, path, issues);
+      if (result === invalid) return invalid;
+      if (predicate(result)) return result;
+      issues.push({ path, message });
+      return invalid;
+    });
+  }
+
+  /**
+   * Returns a schema that replaces the parsed value with the result of `f`.
+   */
+  transform<U>(f: (value: T) => U): Schema<U> {
+    return new Schema((value, path, issues) => {
+      const result = this.#check(value, path, issues);
+      return result === invalid ? invalid : f(result);
+    });
+  }
+
+  static check<T>(
+    schema: Schema<T>,
+    value: unknown,
+    path: string,
+    issues: Issue[],
+  ): T | typeof invalid {
+    return schema.#check(value, path, issues);
+  }
+}
+
+export type { Schema };
+
+export function unknown(): Schema<unknown> {
+  return new Schema((value) => value);
+}
+
+export function string(): Schema<string> {
+  return primitive("string");
+}
+
+/**
+ * Accepts all numbers except `NaN`.
+ */
+export function number(): Schema<number> {
+  return primitive("number").refine(
+    (n) => !Number.isNaN(n),
+    "Expected number, got NaN.",
+  );
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive("boolean");
+}
+
+/**
+ * Accepts values that are identical to one of `values`.
+ */
+export function literal<const T extends readonly Primitive[]>(
+  ...values: T
+): Schema<T[number]> {
+  return new Schema((value, path, issues) => {
+    if (values.some((v) => Object.is(v, value))) return value as T[number];
+    issues.push({
+      path,
+      message: `Expected ${values
+        .map((v) => JSON.stringify(v) ?? String(v))
+        .join(" | ")}, got ${describe(value)}.`,
+    });
+    return invalid;
+  });
+}
+
+export function array<T>(element: Schema<T>): Schema<T[]> {
+  return new Schema((value, path, issues) => {
+    if (!Array.isArray(value)) return expected("array", value, path, issues);
+    const result: T[] = [];
+    let valid = true;
+    for (let i = 0; i < value.length; i++) {
+      const el = Schema.check(element, value[i], `${path}/${i}`, issues);
+      if (el === invalid) valid = false;
+      else result.push(el);
+    }
+    return valid ? result : invalid;
+  });
+}
+
+export type Shape = { readonly [key: string]: Schema<any> };
+
+/**
+ * The static type of the values that are accepted by `object(shape)`.
+ * Properties whose schema accepts `undefined` are optional.
+ */
+export type InferShape<S extends Shape> = Simplify<
+  {
+    -readonly [K in keyof S as undefined extends Infer<S[K]>
+      ? never
+      : K]: Infer<S[K]>;
+  } & {
+    -readonly [K in keyof S as undefined extends Infer<S[K]>
+      ? K
+      : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * Accepts objects whose properties match `shape`. The parsed value only
+ * contains the properties of `shape`, and properties that are missing from
+ * the input are missing from the parsed value.
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return new Schema((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      return expected("object", value, path, issues);
+    }
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    for (const [key, schema] of Object.entries(shape)) {
+      const present = Object.prototype.hasOwnProperty.call(value, key);
+      const property = Schema.check(
+        schema,
+        present ? value[key] : undefined,
+        `${path}/${escapePointer(key)}`,
+        issues,
+      );
+      if (property === invalid) valid = false;
+      else if (present) result[key] = property;
+    }
+    return valid ? (result as InferShape<S>) : invalid;
+  });
+}
+
+/**
+ * Accepts objects whose property values all match `values`, see `ObjectMap`.
+ */
+export function record<V>(values: Schema<V>): Schema<ObjectMap<V>> {
+  return new Schema((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      return expected("object", value, path, issues);
+    }
+    const result: [string, V][] = [];
+    let valid = true;
+    for (const [key, v] of Object.entries(value)) {
+      const property = Schema.check(
+        values,
+        v,
+        `${path}/${escapePointer(key)}`,
+        issues,
+      );
+      if (property === invalid) valid = false;
+      else result.push([key, property]);
+    }
+    // `fromEntries()` defines a `__proto__` key as an own property.
+    return valid ? Object.fromEntries(result) : invalid;
+  });
+}
+
+/**
+ * Accepts values that match any of `schemas`, and returns the result of the
+ * first matching schema.
+ */
+export function union<S extends readonly Schema<any>[]>(
+  ...schemas: S
+): Schema<Infer<S[number]>> {
+  return new Schema((value, path, issues) => {
+    const branchIssues: Issue[][] = [];
+    for (const schema of schemas) {
+      const ownIssues: Issue[] = [];
+      const result = Schema.check(schema, value, path, ownIssues);
+      if (result !== invalid) return result;
+      branchIssues.push(ownIssues);
+    }
+    // If all branches failed at the root, the value has the wrong type for
+    // all of them. Otherwise, report the issues of the branch that got
+    // furthest, which is most likely the intended one.
+    const nested = branchIssues.filter((b) => b.some((i) => i.path !== path));
+    if (nested.length === 1) {
+      issues.push(...nested[0]);
+    } else {
+      issues.push({
+        path,
+        message: `Expected one of ${
+          schemas.length
+        } union members, got ${describe(value)}.`,
+      });
+    }
+    return invalid;
+  });
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return new Schema((value, path, issues) =>
+    value === undefined ? undefined : Schema.check(schema, value, path, issues),
+  );
+}
+
+/**
+ * Returns a `ParamParser` that can be passed to `RouterOptions.parsers`. Path
+ * segments that are rejected by `schema` don't match the route. `format`
+ * converts param values back to path segments for `Router.build()`, and
+ * defaults to `String`.
+ *
+ * To validate query strings, pass `RouteMatch.search` to an `object()` schema
+ * instead.
+ */
+export function paramParser<T>(
+  schema: Schema<T>,
+  format: (value: T) => string = String,
+): ParamParser<T> {
+  return {
+    parse(segment) {
+      const result = schema.parse(segment);
+      return result.ok ? result.value : undefined;
+    },
+    format,
+  };
+}
+
+type Primitive = string | number | bigint | boolean | null | undefined;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type PrimitiveTypes = { string: string; number: number; boolean: boolean };
+
+function primitive<K extends keyof PrimitiveTypes>(
+  type: K,
+): Schema<PrimitiveTypes[K]> {
+  return new Schema((value, path, issues) =>
+    typeof value === type
+      ? (value as PrimitiveTypes[K])
+      : expected(type, value, path, issues),
+  );
+}
+
+function expected(
+  type: string,
+  value: unknown,
+  path: string,
+  issues: Issue[],
+): typeof invalid {
+  issues.push({ path, message: `Expected ${type}, got ${describe(value)}.` });
+  return invalid;
+}
+
+function describe(value: unknown): string {
+  const type = $Object.getType(value);
+  switch (type) {
+    case "string":
+      return `string ${JSON.stringify(value)}`;
+    case "number":
+    case "boolean":
+      return `${type} ${value}`;
+    default:
+      return type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if ($Object.getType(value) !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function escapePointer(key: string): string {
+  return key.replaceAll("~", "~0").replaceAll("/", "~1");
+}
@@ -6,11 +6,34 @@
 
 /**
  * Returns `true` iff `a` and `b` contain the same elements.
+ *
+ * If `compare` is passed, each element of `a` that is not contained in `b` is
+ * matched with a different element of `b` for which `compare` returns `true`.
+ * This requires O(n²) comparisons in the worst case.
+ *
+ * `compare` must be an equivalence relation, i.e. reflexive, symmetric and
+ * transitive. Elements are matched greedily, so for other comparators the
+ * result may be `false` even though a matching exists.
  */
-export function equals<T>(a: Set<T>, b: Set<T>) {
+export function equals<T>(
+  a: Set<T>,
+  b: Set<T>,
+  compare?: (a: T, b: T) => boolean,
+) {
   if (a.size !== b.size) return false;
+  const unmatched: T[] = [];
   for (const el of a) {
-    if (!b.has(el)) return false;
+    if (b.has(el)) continue;
+    if (!compare) return false;
+    unmatched.push(el);
+  }
+  if (unmatched.length === 0) return true;
+
+  const candidates = [...diff(b, a)];
+  for (const el of unmatched) {
+    const i = candidates.findIndex((candidate) => compare!(el, candidate));
+    if (i === -1) return false;
+    candidates.splice(i, 1);
   }
   return true;
 }
@@ -0,0 +1,274 @@
+/**
+ * @module
+ * Utility functions for working with sorted arrays. All functions expect that
+ * the input arrays are sorted by the same `key` and `compare` functions that
+ * are passed to them.
+ * Import like this: `import * as $SortedArray from "@pschiffmann/std/sorted-array";`
+ */
+
+export type Comparator<T> = (a: T, b: T) => number;
+
+export interface OrderOptions<T, K> {
+  /**
+   * Maps elements to the values that are compared. Defaults to the identity
+   * function.
+   */
+  readonly key?: (el: T) => K;
+
+  /**
+   * Defaults to `ascending`.
+   */
+  readonly compare?: Comparator<K>;
+}
+
+/**
+ * Compares numbers, strings and bigints with `<` and `>`.
+ */
+export function ascending(a: any, b: any): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function descending(a: any, b: any): number {
+  return ascending(b, a);
+}
+
+/**
+ * Returns the index of an element whose key is equal to `target`, or -1 if
+ * `self` contains no such element.
+ */
+export function binarySearch<T, K = T>(
+  self: readonly T[],
+  target: K,
+  options?: OrderOptions<T, K>,
+): number {
+  const index = lowerBound(self, target, options);
+  const { key = identity, compare = ascending } = options ?? {};
+  return index < self.length && compare(key(self[index]), target) === 0
+    ? index
+    : -1;
+}
+
+/**
+ * Returns the index of the first element whose key is not less than `target`,
+ * or `self.length` if there is no such element.
+ */
+export function lowerBound<T, K = T>(
+  self: readonly T[],
+  target: K,
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): number {
+  let low = 0;
+  let high = self.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compare(key(self[mid]), target) < 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Returns the index of the first element whose key is greater than `target`,
+ * or `self.length` if there is no such element.
+ */
+export function upperBound<T, K = T>(
+  self: readonly T[],
+  target: K,
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): number {
+  let low = 0;
+  let high = self.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compare(key(self[mid]), target) <= 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Inserts `value` into `self` after all elements with an equal key, and
+ * returns its index.
+ */
+export function insertSorted<T, K = T>(
+  self: T[],
+  value: T,
+  options?: OrderOptions<T, K>,
+): number {
+  const index = upperBound(self, (options?.key ?? identity)(value), options);
+  self.splice(index, 0, value);
+  return index;
+}
+
+/**
+ * Removes `value` from `self`, and returns its former index. Elements with an
+ * equal key are only removed if they are identical to `value`. Returns -1 if
+ * `self` doesn't contain `value`.
+ */
+export function removeSorted<T, K = T>(
+  self: T[],
+  value: T,
+  options?: OrderOptions<T, K>,
+): number {
+  const target = (options?.key ?? identity)(value);
+  const end = upperBound(self, target, options);
+  for (let i = lowerBound(self, target, options); i < end; i++) {
+    if (Object.is(self[i], value)) {
+      self.splice(i, 1);
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * A sort key for `sortBy()`. A function is shorthand for `{ key }`.
+ */
+export type SortKey<T> =
+  | ((el: T) => unknown)
+  | {
+      readonly key: (el: T) => unknown;
+      readonly order?: "asc" | "desc";
+
+      /**
+       * Defaults to `ascending`.
+       */
+      readonly compare?: Comparator<any>;
+    };
+
+/**
+ * Returns a sorted copy of `self`. Elements are compared by the first sort
+ * key, ties are broken by the following sort keys. Elements with equal keys
+ * keep their relative order. Each key function is called once per element.
+ */
+export function sortBy<T>(
+  self: readonly T[],
+  keys: readonly SortKey<T>[],
+): T[] {
+  const sortKeys = keys.map((sortKey) =>
+    typeof sortKey === "function" ? { key: sortKey } : sortKey,
+  );
+  const entries = self.map((el) => ({
+    el,
+    keys: sortKeys.map(({ key }) => key(el)),
+  }));
+  entries.sort((a, b) => {
+    for (let i = 0; i < sortKeys.length; i++) {
+      const { order = "asc", compare = ascending } = sortKeys[i];
+      const result = compare(a.keys[i], b.keys[i]);
+      if (result !== 0) return order === "asc" ? result : -result;
+    }
+    return 0;
+  });
+  return entries.map(({ el }) => el);
+}
+
+/**
+ * Returns all elements of `a` and `b`, sorted. Elements of `a` come before
+ * elements of `b` with an equal key.
+ */
+export function merge<T, K = T>(
+  a: readonly T[],
+  b: readonly T[],
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): T[] {
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (compare(key(a[i]), key(b[j])) <= 0) result.push(a[i++]);
+    else result.push(b[j++]);
+  }
+  while (i < a.length) result.push(a[i++]);
+  while (j < b.length) result.push(b[j++]);
+  return result;
+}
+
+/**
+ * Returns the elements of `a`, and the elements of `b` whose key doesn't occur
+ * in `a`, sorted. Each element of `b` is matched with at most one element of
+ * `a`, so a key that occurs n times in `a` and m times in `b` occurs
+ * max(n, m) times in the result.
+ */
+export function union<T, K = T>(
+  a: readonly T[],
+  b: readonly T[],
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): T[] {
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const order = compare(key(a[i]), key(b[j]));
+    if (order < 0) {
+      result.push(a[i++]);
+    } else if (order > 0) {
+      result.push(b[j++]);
+    } else {
+      result.push(a[i++]);
+      j++;
+    }
+  }
+  while (i < a.length) result.push(a[i++]);
+  while (j < b.length) result.push(b[j++]);
+  return result;
+}
+
+/**
+ * Returns the elements of `a` whose key also occurs in `b`. Each element of
+ * `b` matches at most one element of `a`, so a key that occurs n times in `a`
+ * and m times in `b` occurs min(n, m) times in the result.
+ */
+export function intersection<T, K = T>(
+  a: readonly T[],
+  b: readonly T[],
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): T[] {
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const order = compare(key(a[i]), key(b[j]));
+    if (order < 0) {
+      i++;
+    } else if (order > 0) {
+      j++;
+    } else {
+      result.push(a[i++]);
+      j++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the elements of `a` whose key doesn't occur in `b`. Each element of
+ * `b` removes at most one element of `a`, so a key that occurs n times in `a`
+ * and m times in `b` occurs max(n - m, 0) times in the result.
+ */
+export function diff<T, K = T>(
+  a: readonly T[],
+  b: readonly T[],
+  { key = identity, compare = ascending }: OrderOptions<T, K> = {},
+): T[] {
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const order = compare(key(a[i]), key(b[j]));
+    if (order < 0) {
+      result.push(a[i++]);
+    } else if (order > 0) {
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  while (i < a.length) result.push(a[i++]);
+  return result;
+}
+
+function identity(value: any): any {
+  return value;
+}
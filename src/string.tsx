@@ -1,32 +1,228 @@
 /**
- * Caution: Doesn't handle surrogate pairs correctly!
+ * Splits `self` into
+ * [grapheme clusters](https://unicode.org/reports/tr29/#Grapheme_Cluster_Boundaries),
+ * the characters that are perceived by users. A grapheme can consist of
+ * multiple code points, like emoji with skin tone modifiers or letters with
+ * combining accents.
+ */
+export function graphemes(self: string): string[] {
+  return Array.from(segment(self), ({ segment }) => segment);
+}
+
+/**
+ * Returns the number of graphemes in `self`.
+ *
+ * ```ts
+ * $String.length("👍🏽!") === 2
+ * ```
+ */
+export function length(self: string): number {
+  let result = 0;
+  for (const _ of segment(self)) result++;
+  return result;
+}
+
+/**
+ * Like `String.prototype.slice()`, but `start` and `end` are grapheme indexes.
+ */
+export function slice(self: string, start?: number, end?: number): string {
+  return graphemes(self).slice(start, end).join("");
+}
+
+/**
+ * Returns `self` if it has at most `maxLength` graphemes. Otherwise, returns
+ * the first graphemes of `self` followed by `ellipsis`, so that the result has
+ * `maxLength` graphemes.
+ *
+ * ```ts
+ * $String.truncate("Hello world", 8) === "Hello w…"
+ * ```
+ */
+export function truncate(
+  self: string,
+  maxLength: number,
+  ellipsis = "…",
+): string {
+  const chars = graphemes(self);
+  if (chars.length <= maxLength) return self;
+  const keep = maxLength - length(ellipsis);
+  if (!Number.isInteger(maxLength) || keep < 0) {
+    throw new Error(
+      `Invalid maxLength: ${maxLength}. Must be an integer that is at least ` +
+        `the length of the ellipsis.`,
+    );
+  }
+  return chars.slice(0, keep).join("") + ellipsis;
+}
+
+/**
+ * Converts the first grapheme of `s` to upper case.
  */
 export function capitalize(s: string): string {
-  return s.charAt(0).toUpperCase() + s.substring(1);
+  const [first = "", ...rest] = graphemes(s);
+  return first.toUpperCase() + rest.join("");
 }
 
 /**
- * Trims all occurences of `pattern` at the start of `self`.
+ * Splits `self` into words for the case converters. Words are separated by
+ * non-alphanumeric characters and by changes from lower to upper case. A
+ * sequence of upper case letters is an acronym, except for the last letter if
+ * it is followed by lower case letters. Digits belong to the preceding word.
+ *
+ * ```ts
+ * $String.words("parseHTML5Document") // ["parse", "HTML5", "Document"]
+ * $String.words("XMLHttpRequest")     // ["XML", "Http", "Request"]
+ * $String.words("utf8_encode")        // ["utf8", "encode"]
+ * ```
+ */
+export function words(self: string): string[] {
+  return self.match(wordPattern) ?? [];
+}
+
+const upper = String.raw`[\p{Lu}\p{Lt}]`;
+const lower = String.raw`[\p{Ll}\p{Lm}\p{Lo}\p{M}]`;
+const digit = String.raw`\p{N}`;
+const wordPattern = new RegExp(
+  [
+    `${upper}+(?=${upper}${lower})`,
+    `${upper}?${lower}+${digit}*`,
+    `${upper}+${digit}*`,
+    `${digit}+${lower}*`,
+  ].join("|"),
+  "gu",
+);
+
+/**
+ * ```ts
+ * $String.camelCase("XMLHttpRequest") === "xmlHttpRequest"
+ * ```
+ */
+export function camelCase(self: string): string {
+  return words(self)
+    .map((word, i) =>
+      i === 0 ? word.toLowerCase() : capitalize(word.toLowerCase()),
+    )
+    .join("");
+}
+
+/**
+ * ```ts
+ * $String.pascalCase("xml http request") === "XmlHttpRequest"
+ * ```
+ */
+export function pascalCase(self: string): string {
+  return words(self)
+    .map((word) => capitalize(word.toLowerCase()))
+    .join("");
+}
+
+/**
+ * ```ts
+ * $String.snakeCase("parseHTML5Document") === "parse_html5_document"
+ * ```
+ */
+export function snakeCase(self: string): string {
+  return words(self)
+    .map((word) => word.toLowerCase())
+    .join("_");
+}
+
+/**
+ * ```ts
+ * $String.kebabCase("parseHTML5Document") === "parse-html5-document"
+ * ```
+ */
+export function kebabCase(self: string): string {
+  return words(self)
+    .map((word) => word.toLowerCase())
+    .join("-");
+}
+
+/**
+ * Capitalizes all words and joins them with spaces. Acronyms are kept in
+ * upper case.
+ *
+ * ```ts
+ * $String.titleCase("parse_HTML_document") === "Parse HTML Document"
+ * ```
+ */
+export function titleCase(self: string): string {
+  return words(self)
+    .map((word) => capitalize(word))
+    .join(" ");
+}
+
+/**
+ * Patterns for `trimStart()` and `trimEnd()`: Either a string, a list of
+ * strings, or a predicate that is called for each grapheme.
+ */
+export type TrimPattern =
+  | string
+  | readonly string[]
+  | ((grapheme: string) => boolean);
+
+/**
+ * Trims all occurences of `pattern` at the start of `self`. If `pattern` is a
+ * list, trims all of its elements in any order, and tries longer elements
+ * first. If `pattern` is a predicate, trims all graphemes for which it returns
+ * `true`. Empty patterns are ignored.
  *
  * ```ts
  * $String.trimStart("abab Hello", "ab") === " Hello"
+ * $String.trimStart("-_-Hello", ["-", "_"]) === "Hello"
  * ```
  */
-export function trimStart(self: string, pattern: string) {
+export function trimStart(self: string, pattern: TrimPattern) {
+  if (typeof pattern === "function") {
+    const chars = graphemes(self);
+    let i = 0;
+    while (i < chars.length && pattern(chars[i])) i++;
+    return chars.slice(i).join("");
+  }
+  const patterns = normalizePatterns(pattern);
   let i = 0;
-  while (self.startsWith(pattern, i)) i += pattern.length;
+  while (true) {
+    const match = patterns.find((p) => self.startsWith(p, i));
+    if (match === undefined) break;
+    i += match.length;
+  }
   return self.substring(i);
 }
 
 /**
- * Trims all occurences of `pattern` at the end of `self`.
+ * Trims all occurences of `pattern` at the end of `self`, see `trimStart()`.
  *
  * ```ts
  * $String.trimEnd("Hello abab", "ab") === "Hello "
+ * $String.trimEnd("Hello!?!", ["!", "?"]) === "Hello"
  * ```
  */
-export function trimEnd(self: string, pattern: string) {
+export function trimEnd(self: string, pattern: TrimPattern) {
+  if (typeof pattern === "function") {
+    const chars = graphemes(self);
+    let i = chars.length;
+    while (i > 0 && pattern(chars[i - 1])) i--;
+    return chars.slice(0, i).join("");
+  }
+  const patterns = normalizePatterns(pattern);
   let i = self.length;
-  while (self.endsWith(pattern, i)) i -= pattern.length;
+  while (true) {
+    const match = patterns.find((p) => self.endsWith(p, i));
+    if (match === undefined) break;
+    i -= match.length;
+  }
   return self.substring(0, i);
 }
+
+function normalizePatterns(pattern: string | readonly string[]): string[] {
+  return (typeof pattern === "string" ? [pattern] : [...pattern])
+    .filter((p) => p !== "")
+    .sort((a, b) => b.length - a.length);
+}
+
+let segmenter: Intl.Segmenter | undefined;
+
+function segment(self: string): Intl.Segments {
+  segmenter ??= new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  return segmenter.segment(self);
+}
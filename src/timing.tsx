@@ -0,0 +1,285 @@
+import { type AcquireOptions, WaitQueue } from "./concurrency.js";
+import * as $Promise from "./promise.js";
+
+export interface DebounceOptions {
+  /**
+   * If `true`, `fn` is called at the start of a burst of calls. Defaults to
+   * `false`.
+   */
+  readonly leading?: boolean;
+
+  /**
+   * If `true`, `fn` is called at the end of a burst of calls, if it was called
+   * again since the leading call. Defaults to `true`.
+   */
+  readonly trailing?: boolean;
+
+  /**
+   * The maximum time in milliseconds that a call may be delayed. Defaults to
+   * `Infinity`.
+   */
+  readonly maxWait?: number;
+  readonly clock?: $Promise.Clock;
+}
+
+export interface Debounced<A extends unknown[], R> {
+  /**
+   * Schedules a call of `fn` with `args`. The promise resolves with the result
+   * of the next call of `fn`. If the burst ends without another call, because
+   * of `cancel()` or `trailing: false`, the promise resolves with the result
+   * of the last call, or `undefined` if `fn` was never called. If `fn`
+   * throws, the promise rejects with that error.
+   */
+  (...args: A): Promise<Awaited<R> | undefined>;
+
+  /**
+   * `true` if a burst is in progress.
+   */
+  readonly pending: boolean;
+
+  /**
+   * Immediately calls `fn` with the latest arguments if a call is scheduled,
+   * and ends the burst. Returns the result of the last call of `fn`.
+   */
+  flush(): R | undefined;
+
+  /**
+   * Ends the burst without calling `fn`.
+   */
+  cancel(): void;
+}
+
+/**
+ * Returns a function that delays calls of `fn` until `ms` milliseconds have
+ * passed without another call.
+ */
+export function debounce<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  ms: number,
+  {
+    leading = false,
+    trailing = true,
+    maxWait = Infinity,
+    clock = $Promise.systemClock,
+  }: DebounceOptions = {},
+): Debounced<A, R> {
+  let timer: unknown = null;
+  let pendingArgs: A | null = null;
+  let lastCallTime = 0;
+  let lastInvokeTime = 0;
+  let result: R | undefined;
+  let waiters: $Promise.Resolve<Awaited<R> | undefined>[] = [];
+
+  function invoke() {
+    const args = pendingArgs!;
+    const resolvers = waiters;
+    pendingArgs = null;
+    waiters = [];
+    lastInvokeTime = clock.now();
+    try {
+      result = fn(...args);
+    } catch (e) {
+      for (const resolve of resolvers) resolve(Promise.reject(e));
+      return;
+    }
+    for (const resolve of resolvers) resolve(result as Awaited<R>);
+  }
+
+  function schedule() {
+    if (timer !== null) clock.clearTimeout(timer);
+    const due = Math.min(lastCallTime + ms, lastInvokeTime + maxWait);
+    timer = clock.setTimeout(onTimer, due - clock.now());
+  }
+
+  function onTimer() {
+    timer = null;
+    const now = clock.now();
+    if (now < lastCallTime + ms) {
+      // `maxWait` is reached while the burst continues.
+      if (pendingArgs) invoke();
+      else lastInvokeTime = now;
+      schedule();
+      return;
+    }
+    if (trailing && pendingArgs) invoke();
+    end();
+  }
+
+  function end() {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+    pendingArgs = null;
+    for (const resolve of waiters.splice(0)) resolve(result as Awaited<R>);
+  }
+
+  const debounced = (...args: A) => {
+    const [promise, resolve] = $Promise.create<Awaited<R> | undefined>();
+    pendingArgs = args;
+    waiters.push(resolve);
+    lastCallTime = clock.now();
+    if (timer === null) {
+      lastInvokeTime = lastCallTime;
+      if (leading) invoke();
+    }
+    schedule();
+    return promise;
+  };
+  return Object.defineProperties(debounced, {
+    pending: { get: () => timer !== null },
+    flush: {
+      value() {
+        if (pendingArgs) invoke();
+        end();
+        return result;
+      },
+    },
+    cancel: { value: end },
+  }) as Debounced<A, R>;
+}
+
+export interface ThrottleOptions {
+  /**
+   * If `true`, `fn` is called immediately on the first call. Defaults to
+   * `true`.
+   */
+  readonly leading?: boolean;
+
+  /**
+   * If `true`, `fn` is called again at the end of the interval if it was
+   * called during the interval. Defaults to `true`.
+   */
+  readonly trailing?: boolean;
+  readonly clock?: $Promise.Clock;
+}
+
+/**
+ * Returns a function that calls `fn` at most once per `ms` milliseconds.
+ */
+export function throttle<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  ms: number,
+  { leading = true, trailing = true, clock }: ThrottleOptions = {},
+): Debounced<A, R> {
+  return debounce(fn, ms, { leading, trailing, maxWait: ms, clock });
+}
+
+export interface RateLimiterOptions {
+  /**
+   * The maximum number of tokens in the bucket. The bucket starts full.
+   */
+  readonly capacity: number;
+
+  /**
+   * The number of tokens that are added to the bucket per `interval`.
+   */
+  readonly rate: number;
+
+  /**
+   * In milliseconds. Defaults to 1000.
+   */
+  readonly interval?: number;
+  readonly clock?: $Promise.Clock;
+}
+
+/**
+ * A token bucket rate limiter. Waiters are served in FIFO order.
+ */
+export class RateLimiter {
+  constructor({
+    capacity,
+    rate,
+    interval = 1000,
+    clock = $Promise.systemClock,
+  }: RateLimiterOptions) {
+    if (!(capacity > 0)) throw new Error(`Invalid capacity: ${capacity}`);
+    if (!(rate > 0 && interval > 0)) {
+      throw new Error(`Invalid rate: ${rate} per ${interval} ms`);
+    }
+    this.capacity = capacity;
+    this.#tokensPerMs = rate / interval;
+    this.#clock = clock;
+    this.#tokens = capacity;
+    this.#lastRefill = clock.now();
+  }
+
+  readonly capacity: number;
+  #tokensPerMs: number;
+  #clock: $Promise.Clock;
+  #tokens: number;
+  #lastRefill: number;
+  #waiters = new WaitQueue<void>(() => this.#dispatch());
+  #timer: unknown = null;
+
+  /**
+   * The number of tokens in the bucket. May be fractional.
+   */
+  get available(): number {
+    this.#refill();
+    return this.#tokens;
+  }
+
+  /**
+   * Removes `tokens` tokens from the bucket, and waits until they are
+   * available.
+   */
+  acquire(tokens = 1, options?: AcquireOptions): Promise<void> {
+    this.#validateTokens(tokens);
+    if (options?.signal?.aborted) return Promise.reject(options.signal.reason);
+    if (this.tryAcquire(tokens)) return Promise.resolve();
+    const promise = this.#waiters.wait(tokens, options);
+    this.#dispatch();
+    return promise;
+  }
+
+  /**
+   * Removes `tokens` tokens from the bucket if they are available and no other
+   * waiters are queued. Returns whether the tokens were removed.
+   */
+  tryAcquire(tokens = 1): boolean {
+    this.#validateTokens(tokens);
+    this.#refill();
+    if (this.#waiters.length !== 0 || tokens > this.#tokens) return false;
+    this.#tokens -= tokens;
+    return true;
+  }
+
+  #validateTokens(tokens: number) {
+    if (!(tokens > 0 && tokens <= this.capacity)) {
+      throw new Error(
+        `Invalid tokens: ${tokens}. Must be between 0 and ${this.capacity}.`,
+      );
+    }
+  }
+
+  #refill() {
+    const now = this.#clock.now();
+    this.#tokens = Math.min(
+      this.capacity,
+      this.#tokens + (now - this.#lastRefill) * this.#tokensPerMs,
+    );
+    this.#lastRefill = now;
+  }
+
+  /**
+   * Resolves all waiters at the head of the queue whose tokens are available,
+   * and schedules a timer for the next waiter.
+   */
+  #dispatch() {
+    if (this.#timer !== null) this.#clock.clearTimeout(this.#timer);
+    this.#timer = null;
+    this.#refill();
+    while (this.#waiters.length !== 0) {
+      const tokens = this.#waiters.nextWeight!;
+      if (tokens > this.#tokens) {
+        const ms = (tokens - this.#tokens) / this.#tokensPerMs;
+        this.#timer = this.#clock.setTimeout(
+          () => this.#dispatch(),
+          Math.ceil(ms),
+        );
+        return;
+      }
+      this.#tokens -= tokens;
+      this.#waiters.resolveNext();
+    }
+  }
+}
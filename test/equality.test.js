@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as $Equality from "../dist/equality.js";
+
+test("deepEquals() compares the name and message of errors", () => {
+  assert.ok($Equality.deepEquals(new Error("a"), new Error("a")));
+  assert.ok(!$Equality.deepEquals(new Error("a"), new Error("b")));
+  assert.ok(!$Equality.deepEquals(new TypeError("a"), new RangeError("a")));
+
+  const renamed = new Error("a");
+  Object.defineProperty(renamed, "name", { value: "CustomError" });
+  assert.ok(!$Equality.deepEquals(new Error("a"), renamed));
+});
+
+test("structuralHash() is equal for equal errors", () => {
+  assert.equal(
+    $Equality.structuralHash(new Error("a")),
+    $Equality.structuralHash(new Error("a")),
+  );
+  assert.notEqual(
+    $Equality.structuralHash(new Error("a")),
+    $Equality.structuralHash(new Error("b")),
+  );
+});
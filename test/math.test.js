@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as $Math from "../dist/math.js";
+
+test("sum() compensates rounding errors", () => {
+  assert.equal($Math.sum([1e16, 1, -1e16]), 1);
+  assert.equal($Math.sum(new Array(1e5).fill(0.1)), 10000);
+});
+
+test("sum() and mean() handle overflow and infinite values", () => {
+  assert.equal($Math.sum([1e308, 1e308]), Infinity);
+  assert.equal($Math.sum([-1e308, -1e308, 1]), -Infinity);
+  assert.equal($Math.sum([Infinity, 1]), Infinity);
+  assert.equal($Math.sum([1, -Infinity, 2]), -Infinity);
+  assert.equal($Math.sum([Infinity, -Infinity]), NaN);
+
+  assert.equal($Math.mean([1e308, 1e308]), 1e308);
+  assert.equal($Math.mean([Infinity, 1]), Infinity);
+  assert.equal($Math.mean([1, -Infinity]), -Infinity);
+  assert.equal($Math.mean([Infinity, -Infinity]), NaN);
+});
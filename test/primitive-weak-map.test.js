@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { PrimitiveWeakMap } from "../dist/primitive-weak-map.js";
+
+assert(globalThis.gc, "Run with `node --expose-gc`.");
+
+/**
+ * Runs garbage collection until `done()` returns `true`. WeakRefs can't be
+ * cleared in the same job that created or dereferenced them, and
+ * FinalizationRegistry callbacks run in a later task, so this yields to the
+ * event loop between collections.
+ */
+async function collectUntil(done) {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    globalThis.gc();
+    if (done()) return;
+  }
+  assert.fail("Values were not garbage collected.");
+}
+
+test("keys() and entries() skip collected values", async () => {
+  const map = new PrimitiveWeakMap();
+  const kept = {};
+  map.set("kept", kept);
+  map.set("collected", {});
+
+  await collectUntil(() => !map.has("collected"));
+  // The FinalizationRegistry callback hasn't removed the dead entry yet.
+  assert.equal(map.size, 2);
+  assert.deepEqual([...map.keys()], ["kept"]);
+  assert.deepEqual([...map.entries()], [["kept", kept]]);
+  assert.deepEqual([...map.values()], [kept]);
+});
+
+test("onEvict is called after a value was collected", async () => {
+  const evicted = [];
+  const map = new PrimitiveWeakMap({ onEvict: (key) => evicted.push(key) });
+  const kept = {};
+  map.set(1, kept);
+  map.set(2, {});
+
+  await collectUntil(() => evicted.length !== 0);
+  assert.deepEqual(evicted, [2]);
+  assert.equal(map.size, 1);
+  assert.equal(map.get(1), kept);
+});
+
+test("onEvict is not called for deleted and overwritten entries", async () => {
+  const evicted = [];
+  const map = new PrimitiveWeakMap({ onEvict: (key) => evicted.push(key) });
+  map.set("deleted", {});
+  map.delete("deleted");
+  map.set("overwritten", {});
+  map.set("overwritten", {});
+
+  await collectUntil(() => evicted.length !== 0);
+  assert.deepEqual(evicted, ["overwritten"]);
+});
+
+test("retain keeps the most recently used values alive", async () => {
+  const map = new PrimitiveWeakMap({ retain: 2 });
+  map.set("a", {});
+  map.set("b", {});
+  map.set("c", {});
+  map.get("b");
+  map.set("d", {});
+
+  await collectUntil(() => map.size === 2);
+  assert.deepEqual([...map.keys()].sort(), ["b", "d"]);
+});